@@ -8,9 +8,11 @@ import SettingsView from './components/SettingsView';
 import AuthView from './components/AuthView';
 import BookLibrary from './components/BookLibrary';
 import ApiKeyModal from './components/ApiKeyModal';
+import GuestMigrationModal from './components/GuestMigrationModal';
 import { AppView, PersistedAnalysis, BookPage } from './types';
 import { BookOpen, Camera, Bookmark, Sparkles, History, ArrowRight, Settings, Loader2, Library } from 'lucide-react';
 import { getLastAnalysis, getVocab, getTheme, setTheme as saveTheme, getSessionApiKey } from './services/storageService';
+import { GuestDataSummary, getGuestDataSummary } from './services/guestMigrationService';
 import { auth } from './services/firebase';
 import { onAuthStateChanged, User } from 'firebase/auth';
 
@@ -23,10 +25,14 @@ export default function App() {
   const [isGuest, setIsGuest] = useState<boolean>(localStorage.getItem('spanish_assistant_is_guest') === 'true');
   const [authLoading, setAuthLoading] = useState(true);
   const [showApiKeyModal, setShowApiKeyModal] = useState(false);
+  const [guestData, setGuestData] = useState<GuestDataSummary | null>(null);
 
   // State for Book Library Integration
   const [activeBookId, setActiveBookId] = useState<string | null>(null);
   const [pageToRead, setPageToRead] = useState<BookPage | null>(null);
+  // Set when a page is opened at a vocab's Fundstelle; closing the page returns to the trainer
+  const [sentenceToOpen, setSentenceToOpen] = useState<number | null>(null);
+  const [returnView, setReturnView] = useState<AppView | null>(null);
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
@@ -35,6 +41,10 @@ export default function App() {
         setIsGuest(false);
         localStorage.removeItem('spanish_assistant_is_guest');
         checkApiKey();
+        // Offer to move data collected as a guest into the account
+        getGuestDataSummary()
+          .then(setGuestData)
+          .catch(e => console.error("Failed to check guest data", e));
       }
       setAuthLoading(false);
     });
@@ -80,6 +90,16 @@ export default function App() {
   const handleOpenPage = (page: BookPage) => {
       setPageToRead(page);
       setActiveBookId(page.bookId); // Keep book context
+      setSentenceToOpen(null);
+      setReturnView(null);
+      setCurrentView(AppView.ANALYZE);
+  };
+
+  const handleOpenVocabSource = (page: BookPage, sentenceIndex: number) => {
+      setPageToRead(page);
+      setActiveBookId(page.bookId);
+      setSentenceToOpen(sentenceIndex);
+      setReturnView(AppView.VOCAB);
       setCurrentView(AppView.ANALYZE);
   };
 
@@ -90,13 +110,18 @@ export default function App() {
   };
 
   const handleAnalysisClose = () => {
-      if (activeBookId) {
+      if (returnView) {
+          setCurrentView(returnView);
+          setActiveBookId(null);
+      } else if (activeBookId) {
           // If we were adding to a book or reading a book, go back to library
           setCurrentView(AppView.LIBRARY);
       } else {
           setCurrentView(AppView.HOME);
       }
       setPageToRead(null);
+      setSentenceToOpen(null);
+      setReturnView(null);
   };
 
   const handleViewChange = (view: AppView) => {
@@ -104,6 +129,8 @@ export default function App() {
       if (view !== AppView.ANALYZE) {
           setActiveBookId(null);
           setPageToRead(null);
+          setSentenceToOpen(null);
+          setReturnView(null);
       }
       setCurrentView(view);
   }
@@ -128,12 +155,13 @@ export default function App() {
             <AnalysisView 
                 onChangeView={handleViewChange} 
                 initialData={pageToRead} // Pass full BookPage object
+                initialSentenceIndex={sentenceToOpen}
                 targetBookId={activeBookId} // If set, save result to this book
                 onSaveComplete={handleAnalysisClose}
             />
         );
       case AppView.VOCAB:
-        return <VocabTrainer />;
+        return <VocabTrainer onOpenSource={handleOpenVocabSource} />;
       case AppView.LIBRARY:
         return (
             <BookLibrary 
@@ -256,6 +284,16 @@ export default function App() {
     >
       {renderContent()}
       {showApiKeyModal && <ApiKeyModal onClose={() => setShowApiKeyModal(false)} />}
+      {user && guestData && (
+        <GuestMigrationModal
+          uid={user.uid}
+          summary={guestData}
+          onClose={() => {
+            setGuestData(null);
+            getVocab().then(vocab => setVocabCount(vocab.length));
+          }}
+        />
+      )}
     </Layout>
   );
 }
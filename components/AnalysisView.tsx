@@ -1,14 +1,29 @@
 
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
-import { Play, Loader2, CheckCircle, ChevronRight, ChevronLeft, XCircle, Volume2, SkipForward, Save, BookOpen, Plus, Undo2, ArrowLeft } from 'lucide-react';
-import { PageAnalysisResult, AppView, BookPage, Book, WordAnalysis } from '../types';
-import { analyzeImage, generateSpeech } from '../services/geminiService';
-import { addVocabBatch, isVocabSaved, saveCurrentAnalysis, clearLastAnalysis, addPageToBook, updatePageProgress, getBooks, createBook } from '../services/storageService';
+import { Play, Loader2, CheckCircle, ChevronRight, ChevronLeft, XCircle, Volume2, SkipForward, Save, BookOpen, Plus, Undo2, ArrowLeft, FileText, Type, Image as ImageIcon, Mic, Pencil, Bookmark } from 'lucide-react';
+import { PageAnalysisResult, AppView, BookPage, Book, WordAnalysis, SentenceAnalysis } from '../types';
+import { speak, stopSpeaking } from '../services/speechService';
+import { isPronunciationSupported } from '../services/pronunciationService';
+import { analyzeImage, analyzeText } from '../services/analysisService';
+import { AnalysisValidationError } from '../services/analysisValidation';
+import { GeminiRequestError, isCancelled } from '../services/geminiRequest';
+import { addVocabBatch, saveVocabFromAnalysis, removeWordFromVocab, getPractisedVocabRemovedWith, getVocabSavePolicy, isVocabSaved, saveCurrentAnalysis, clearLastAnalysis, addPageToBook, updatePageProgress, updatePageAnalysis, getBooks, createBook, getPageImage } from '../services/storageService';
+import { vocabEntryFromWord } from '../services/vocabExtraction';
+import { extractDocumentPages, ImportPageSource } from '../services/documentImportService';
+import DocumentImportView from './DocumentImportView';
+import CameraCapture from './CameraCapture';
+import SplitPageConfirm from './SplitPageConfirm';
+import PageImageOverlay from './PageImageOverlay';
+import { PageSplit, loadCanvas, detectSplit, splitCanvas } from '../services/documentScanner';
+import PronunciationPractice from './PronunciationPractice';
+import SentenceEditor from './SentenceEditor';
 
 interface AnalysisViewProps {
     onChangeView?: (view: AppView) => void;
     // When reading an existing page
     initialData?: BookPage | null;
+    // Opens the page at this sentence instead of the saved reading position
+    initialSentenceIndex?: number | null;
     // When scanning into a specific book (Pre-selected)
     targetBookId?: string | null;
     onSaveComplete?: () => void;
@@ -16,11 +31,17 @@ interface AnalysisViewProps {
 
 type FlowPhase = 'sentence' | 'words' | 'translation';
 
-const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData, targetBookId, onSaveComplete }) => {
+const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData, initialSentenceIndex, targetBookId, onSaveComplete }) => {
   // State for Scanning & Image
   const [image, setImage] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<PageAnalysisResult | null>(null);
+  // State for pasted text (analysis without OCR)
+  const [showTextInput, setShowTextInput] = useState(false);
+  const [pastedText, setPastedText] = useState('');
+  // Full page image of a saved page is only loaded when the user asks for it
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [loadingOriginal, setLoadingOriginal] = useState(false);
   
   // State for Reading Flow
   const [currentSentenceIndex, setCurrentSentenceIndex] = useState(0);
@@ -30,6 +51,10 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData,
 
   // State for Audio & Progress
   const [playingAudio, setPlayingAudio] = useState<string | null>(null);
+  const [showPractice, setShowPractice] = useState(false);
+  const [editingSentence, setEditingSentence] = useState(false);
+  const [showCamera, setShowCamera] = useState(false);
+  const [pendingSplit, setPendingSplit] = useState<{ image: string, split: PageSplit } | null>(null);
   const [finished, setFinished] = useState(false);
   const [newlySavedCount, setNewlySavedCount] = useState(0);
   const [savedWords, setSavedWords] = useState<Set<string>>(new Set());
@@ -42,25 +67,37 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData,
   const [creatingBook, setCreatingBook] = useState(false);
   const [newBookTitle, setNewBookTitle] = useState('');
 
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  // State for multi-page document import (PDF, EPUB, TXT)
+  const [importJob, setImportJob] = useState<{ fileName: string, sources: ImportPageSource[] } | null>(null);
+  const [importBookId, setImportBookId] = useState<string | null>(null);
+  const [preparingImport, setPreparingImport] = useState(false);
+
+  const documentInputRef = useRef<HTMLInputElement>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  // Jumping to a sentence does not count as reading progress until the user moves on
+  const skipProgressSaveRef = useRef(initialSentenceIndex != null);
+
+  // Leaving the view cancels a running analysis
+  useEffect(() => () => analysisAbortRef.current?.abort(), []);
 
   // Initialization
   useEffect(() => {
       if (initialData) {
           // READING MODE: Resume existing page
-          setImage(initialData.image);
+          setImage(initialData.image || null);
           setResult(initialData.analysis);
           setActivePageId(initialData.id);
           setActiveBookId(initialData.bookId);
           // Resume progress if available
-          if (initialData.lastSentenceIndex !== undefined && initialData.lastSentenceIndex > 0) {
-              setCurrentSentenceIndex(initialData.lastSentenceIndex);
+          const startIndex = initialSentenceIndex ?? initialData.lastSentenceIndex;
+          if (startIndex !== undefined && startIndex > 0) {
+              setCurrentSentenceIndex(Math.min(startIndex, initialData.analysis.sentences.length - 1));
           }
       } else if (targetBookId) {
           // SCAN MODE (Targeted): Will save to this book automatically
           setActiveBookId(targetBookId);
       }
-  }, [initialData, targetBookId]);
+  }, [initialData, initialSentenceIndex, targetBookId]);
 
   // Sync saved words visually
   const syncSavedState = useCallback(async () => {
@@ -93,6 +130,10 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData,
   // Save Progress on Sentence Change
   useEffect(() => {
       if (activeBookId && activePageId && result) {
+          if (skipProgressSaveRef.current) {
+              skipProgressSaveRef.current = false;
+              return;
+          }
           // Save progress silently
           updatePageProgress(activeBookId, activePageId, currentSentenceIndex);
       }
@@ -100,7 +141,11 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData,
 
   // --- ACTIONS ---
 
-  const handleAnalyze = async (base64Data: string) => {
+  // imgData is null for pasted text, which is stored as a page without image
+  const runAnalysis = async (analyze: (signal: AbortSignal) => Promise<PageAnalysisResult>, imgData: string | null) => {
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setLoading(true);
     setResult(null);
     setFinished(false);
@@ -112,13 +157,14 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData,
     setActivePageId(null);
 
     try {
-      const data = await analyzeImage(base64Data);
+      const data = await analyze(controller.signal);
       setResult(data);
+      setShowTextInput(false);
       
       // IMMEDIATE SAVE LOGIC
       if (activeBookId) {
           // Case 1: Book is already known (Targeted Scan)
-          await handleSaveToBookAndVocab(activeBookId, base64Data, data);
+          await handleSaveToBookAndVocab(activeBookId, imgData, data);
       } else {
           // Case 2: No book selected (Global Scan) -> Prompt User
           const books = await getBooks();
@@ -127,54 +173,43 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData,
       }
 
     } catch (err: any) {
+      if (isCancelled(err)) return;
       console.error(err);
       setImage(null);
-      alert("Analyse fehlgeschlagen. Bitte versuchen Sie es erneut.");
+      if (err instanceof AnalysisValidationError) {
+        console.warn("Validation issues", err.issues);
+        alert(err.message);
+      } else if (err instanceof GeminiRequestError) {
+        alert(err.message);
+      } else {
+        alert("Analyse fehlgeschlagen. Bitte versuchen Sie es erneut.");
+      }
     } finally {
       setLoading(false);
     }
   };
 
-  const handleSaveToBookAndVocab = async (bookId: string, imgData: string, analysisData: PageAnalysisResult) => {
+  const handleAnalyze = (base64Data: string) => runAnalysis(signal => analyzeImage(base64Data, signal), base64Data);
+
+  const handleAnalyzeText = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = pastedText.trim();
+    if (!text) return;
+    setImage(null);
+    runAnalysis(signal => analyzeText(text, signal), null);
+  };
+
+  const handleSaveToBookAndVocab = async (bookId: string, imgData: string | null, analysisData: PageAnalysisResult) => {
       try {
           // 1. Save Page
           const pageId = await addPageToBook(bookId, imgData, analysisData);
           setActivePageId(pageId);
           setActiveBookId(bookId);
 
-          // 2. Save All Vocab Immediately (Flattened)
-          const flattenWords = (words: WordAnalysis[], context: string): any[] => {
-              return words.flatMap(w => {
-                  if (w.type !== 'word') return [];
-                  
-                  const mainWord = {
-                      word: w.word,
-                      translation: w.translation || '',
-                      explanation: w.explanation || '',
-                      literalTranslation: w.literalTranslation,
-                      category: w.category,
-                      baseForm: w.baseForm,
-                      tense: w.tense,
-                      person: w.person,
-                      contextSentence: context
-                  };
-                  
-                  let subList: any[] = [];
-                  if (w.subWords && w.subWords.length > 0) {
-                      subList = flattenWords(w.subWords, context);
-                  }
-                  
-                  return [mainWord, ...subList];
-              });
-          };
-
-          const allWords = analysisData.sentences.flatMap(s => flattenWords(s.words, s.original));
-          
-          if (allWords.length > 0) {
-              const savedCount = await addVocabBatch(allWords);
-              setNewlySavedCount(savedCount);
-              await syncSavedState(); // Refresh visual checks
-          }
+          // 2. Save the vocab the saving policy allows, the rest can be bookmarked word by word
+          const savedCount = await saveVocabFromAnalysis(analysisData, { bookId, pageId });
+          setNewlySavedCount(savedCount);
+          await syncSavedState(); // Refresh visual checks
 
       } catch (e) {
           console.error("Save failed", e);
@@ -182,15 +217,42 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData,
       }
   };
 
+  const handleToggleBookmark = async (word: WordAnalysis) => {
+      if (!currentSentence) return;
+      const key = word.word.toLowerCase();
+      try {
+          if (savedWords.has(key)) {
+              // Lemmas with a learning history only go with an explicit confirmation
+              const practised = await getPractisedVocabRemovedWith(word.word);
+              if (practised.length > 0 && !window.confirm(`„${practised.map(item => item.word).join('“, „')}“ wird bereits gelernt. Samt Lernfortschritt aus der Sammlung entfernen?`)) {
+                  return;
+              }
+              await removeWordFromVocab(word.word);
+          } else {
+              const source = activeBookId && activePageId ? { bookId: activeBookId, pageId: activePageId, sentenceIndex: currentSentenceIndex } : undefined;
+              await addVocabBatch([vocabEntryFromWord(word, currentSentence, source)]);
+          }
+          await syncSavedState();
+      } catch (e) {
+          console.error("Bookmark failed", e);
+          alert("Die Vokabel konnte nicht gespeichert werden.");
+      }
+  };
+
   const handleBookSelect = async (bookId: string) => {
-      if (!result || !image) return;
+      if (importJob) {
+          setShowBookSelector(false);
+          setImportBookId(bookId);
+          return;
+      }
+      if (!result) return;
       setShowBookSelector(false);
       await handleSaveToBookAndVocab(bookId, image, result);
   };
 
   const handleCreateAndSelectBook = async (e: React.FormEvent) => {
       e.preventDefault();
-      if (!newBookTitle.trim() || !result || !image) return;
+      if (!newBookTitle.trim() || (!importJob && !result)) return;
       
       try {
           const newId = await createBook(newBookTitle, "Unbekannt");
@@ -201,53 +263,96 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData,
       }
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const startImportJob = async (fileName: string, sources: ImportPageSource[]) => {
+    setImportJob({ fileName, sources });
+    if (activeBookId) {
+      setImportBookId(activeBookId);
+    } else {
+      setAvailableBooks(await getBooks());
+      setShowBookSelector(true);
+    }
+  };
+
+  const handleCapture = async (base64Data: string) => {
+    setShowCamera(false);
+    try {
+      const split = detectSplit(await loadCanvas(base64Data));
+      if (split) {
+        setPendingSplit({ image: base64Data, split });
+        return;
+      }
+    } catch (e) {
+      console.error("Split detection failed", e);
+    }
+    setImage(base64Data);
+    handleAnalyze(base64Data);
+  };
+
+  // Both halves go through the import queue, which stores them as consecutive pages
+  const handleSplitConfirmed = async (position: number) => {
+    if (!pendingSplit) return;
+    const { image: spreadImage, split } = pendingSplit;
+    setPendingSplit(null);
+    try {
+      const [left, right] = splitCanvas(await loadCanvas(spreadImage), position);
+      const labels = split.kind === 'spread' ? ['Linke Seite', 'Rechte Seite'] : ['Linke Spalte', 'Rechte Spalte'];
+      await startImportJob(split.kind === 'spread' ? 'Doppelseite' : 'Zweispaltige Seite', [
+        { label: labels[0], load: async () => ({ image: left }) },
+        { label: labels[1], load: async () => ({ image: right }) }
+      ]);
+    } catch (e) {
+      console.error("Splitting the page failed", e);
+      setImportJob(null);
+      alert("Die Seite konnte nicht geteilt werden. Sie wird als Ganzes analysiert.");
+      setImage(spreadImage);
+      handleAnalyze(spreadImage);
+    }
+  };
+
+  const handleSplitDeclined = () => {
+    if (!pendingSplit) return;
+    const { image: pageImage } = pendingSplit;
+    setPendingSplit(null);
+    setImage(pageImage);
+    handleAnalyze(pageImage);
+  };
+
+  const handleDocumentChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const img = new Image();
-        img.onload = () => {
-          const canvas = document.createElement('canvas');
-          const MAX_WIDTH = 1200;
-          const MAX_HEIGHT = 1200;
-          let width = img.width;
-          let height = img.height;
-
-          if (width > height) {
-            if (width > MAX_WIDTH) {
-              height *= MAX_WIDTH / width;
-              width = MAX_WIDTH;
-            }
-          } else {
-            if (height > MAX_HEIGHT) {
-              width *= MAX_HEIGHT / height;
-              height = MAX_HEIGHT;
-            }
-          }
+    e.target.value = '';
+    if (!file) return;
 
-          canvas.width = width;
-          canvas.height = height;
-          const ctx = canvas.getContext('2d');
-          if (ctx) {
-            ctx.drawImage(img, 0, 0, width, height);
-            const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
-            const base64Data = dataUrl.split(',')[1];
-            setImage(base64Data);
-            handleAnalyze(base64Data);
-          }
-        };
-        img.src = event.target?.result as string;
-      };
-      reader.readAsDataURL(file);
+    setPreparingImport(true);
+    try {
+      const sources = await extractDocumentPages(file);
+      if (sources.length === 0) {
+        alert("Im Dokument wurde kein Text gefunden.");
+        return;
+      }
+      await startImportJob(file.name, sources);
+    } catch (err) {
+      console.error("Document import failed", err);
+      alert("Das Dokument konnte nicht gelesen werden.");
+    } finally {
+      setPreparingImport(false);
     }
   };
 
+  const handleImportFinished = () => {
+    setImportJob(null);
+    setImportBookId(null);
+    handleClose();
+  };
+
   const handlePlayAudio = async (text: string, id: string) => {
-    if (playingAudio) return;
+    // A second tap stops the running playback
+    if (playingAudio) {
+        stopSpeaking();
+        return;
+    }
     setPlayingAudio(id);
     try {
-        await generateSpeech(text);
+        await speak(text);
     } catch (e) {
         console.error(e);
     } finally {
@@ -352,6 +457,45 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData,
     }
   };
 
+  const handleJumpToSentence = (index: number) => {
+      setCurrentSentenceIndex(index);
+      setPhase('sentence');
+      setCurrentWordIndex(0);
+      setShowOriginal(false);
+  };
+
+  // Corrections of saved pages are persisted right away and carried over to the vocab
+  const handleSaveCorrection = async (sentence: SentenceAnalysis) => {
+      if (!result) return;
+      const updated: PageAnalysisResult = {
+          ...result,
+          sentences: result.sentences.map((s, idx) => idx === currentSentenceIndex ? sentence : s)
+      };
+      if (activeBookId && activePageId) {
+          await updatePageAnalysis(activeBookId, activePageId, updated);
+      }
+      setResult(updated);
+      setPhase('sentence');
+      setCurrentWordIndex(0);
+      setEditingSentence(false);
+  };
+
+  const handleShowOriginal = async () => {
+      if (!image && initialData) {
+          setLoadingOriginal(true);
+          try {
+              setImage(await getPageImage(initialData));
+          } catch (e) {
+              console.error("Failed to load page image", e);
+              alert("Das Originalbild konnte nicht geladen werden.");
+              return;
+          } finally {
+              setLoadingOriginal(false);
+          }
+      }
+      setShowOriginal(true);
+  };
+
   const handleClose = () => {
      if (onSaveComplete) {
          onSaveComplete();
@@ -373,12 +517,25 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData,
 
   // --- RENDER ---
 
-  if (loading) {
+  if (importJob && importBookId) {
+    return (
+      <DocumentImportView
+          fileName={importJob.fileName}
+          sources={importJob.sources}
+          bookId={importBookId}
+          onFinished={handleImportFinished}
+      />
+    );
+  }
+
+  if (loading || preparingImport) {
     return (
       <div className="fixed inset-0 bg-[#FDFBF7] dark:bg-[#12100E] flex flex-col items-center justify-center text-center p-6 z-50">
         <Loader2 className="w-12 h-12 animate-spin text-[#6B705C] dark:text-[#D4A373] mb-4" />
-        <h2 className="text-xl font-serif font-bold text-[#2C2420] dark:text-[#FDFBF7]">Analysiere Seite...</h2>
-        <p className="text-sm text-[#6B705C] dark:text-[#A5A58D] font-serif italic mt-2">Texte, Grammatik und Vokabeln werden erkannt.</p>
+        <h2 className="text-xl font-serif font-bold text-[#2C2420] dark:text-[#FDFBF7]">{preparingImport ? 'Lese Dokument...' : 'Analysiere Seite...'}</h2>
+        <p className="text-sm text-[#6B705C] dark:text-[#A5A58D] font-serif italic mt-2">
+            {preparingImport ? 'Die Seiten werden für den Import vorbereitet.' : 'Texte, Grammatik und Vokabeln werden erkannt.'}
+        </p>
       </div>
     );
   }
@@ -439,6 +596,44 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData,
       )
   }
 
+  // Paste Text UI
+  if (showTextInput && !result) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh] gap-6 animate-fade-in px-6">
+        <div className="text-center">
+            <h2 className="text-2xl font-serif font-bold text-[#2C2420] dark:text-[#FDFBF7] mb-2">Text einfügen</h2>
+            <p className="text-[#6B705C] dark:text-[#A5A58D] font-serif italic max-w-xs mx-auto">
+                Artikel, Liedtexte oder Nachrichten – alles, was du auf Spanisch lesen möchtest.
+            </p>
+        </div>
+        <form onSubmit={handleAnalyzeText} className="flex flex-col gap-3 w-full max-w-lg">
+            <textarea
+                autoFocus
+                value={pastedText}
+                onChange={e => setPastedText(e.target.value)}
+                rows={10}
+                placeholder="Pega aquí tu texto..."
+                className="w-full bg-white dark:bg-[#1C1917] border border-[#EAE2D6] dark:border-[#2C2420] rounded-2xl p-4 outline-none focus:ring-2 focus:ring-[#B26B4A]/20 font-serif text-lg leading-relaxed text-[#2C2420] dark:text-[#FDFBF7] resize-none"
+            />
+            <button type="submit" disabled={!pastedText.trim()} className="bg-[#2C2420] dark:bg-[#D4A373] text-white dark:text-[#12100E] py-4 px-10 rounded-2xl shadow-xl font-bold uppercase text-[10px] tracking-widest active:scale-95 transition-transform disabled:opacity-30">
+                Text analysieren
+            </button>
+            <button type="button" onClick={() => setShowTextInput(false)} className="text-[#6B705C] dark:text-[#A5A58D] font-bold uppercase text-[10px] tracking-widest p-2 hover:text-[#2C2420] dark:hover:text-[#FDFBF7]">
+                Zurück
+            </button>
+        </form>
+      </div>
+    );
+  }
+
+  if (showCamera) {
+    return <CameraCapture onCapture={handleCapture} onCancel={() => setShowCamera(false)} />;
+  }
+
+  if (pendingSplit) {
+    return <SplitPageConfirm image={pendingSplit.image} split={pendingSplit.split} onSplit={handleSplitConfirmed} onKeep={handleSplitDeclined} />;
+  }
+
   // Initial Scan UI
   if (!result && !image) {
     return (
@@ -451,14 +646,22 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData,
                 {targetBookId ? "Nächste Seite hinzufügen" : "Bereit zum Lesen?"}
             </h2>
             <p className="text-[#6B705C] dark:text-[#A5A58D] font-serif italic max-w-xs mx-auto">
-                Scanne eine Buchseite. Wir speichern sie automatisch in deiner Bibliothek.
+                Scanne eine Buchseite oder füge Text ein. Wir speichern ihn automatisch in deiner Bibliothek.
             </p>
         </div>
-        <input type="file" accept="image/*" capture="environment" ref={fileInputRef} className="hidden" onChange={handleFileChange} />
+        <input type="file" accept="application/pdf,.pdf,application/epub+zip,.epub,text/plain,.txt" ref={documentInputRef} className="hidden" onChange={handleDocumentChange} />
         <div className="flex flex-col gap-3 w-full max-w-xs">
-            <button onClick={() => fileInputRef.current?.click()} className="bg-[#2C2420] dark:bg-[#D4A373] text-white dark:text-[#12100E] py-4 px-10 rounded-2xl shadow-xl font-bold uppercase text-[10px] tracking-widest active:scale-95 transition-transform">
+            <button onClick={() => setShowCamera(true)} className="bg-[#2C2420] dark:bg-[#D4A373] text-white dark:text-[#12100E] py-4 px-10 rounded-2xl shadow-xl font-bold uppercase text-[10px] tracking-widest active:scale-95 transition-transform">
                 Seite scannen
             </button>
+            <button onClick={() => documentInputRef.current?.click()} className="bg-white dark:bg-[#1C1917] border border-[#EAE2D6] dark:border-[#2C2420] text-[#2C2420] dark:text-[#FDFBF7] py-4 px-10 rounded-2xl shadow-sm font-bold uppercase text-[10px] tracking-widest active:scale-95 transition-transform flex items-center justify-center gap-2">
+                <FileText className="w-4 h-4" />
+                PDF / EPUB importieren
+            </button>
+            <button onClick={() => setShowTextInput(true)} className="bg-white dark:bg-[#1C1917] border border-[#EAE2D6] dark:border-[#2C2420] text-[#2C2420] dark:text-[#FDFBF7] py-4 px-10 rounded-2xl shadow-sm font-bold uppercase text-[10px] tracking-widest active:scale-95 transition-transform flex items-center justify-center gap-2">
+                <Type className="w-4 h-4" />
+                Text einfügen
+            </button>
             <button onClick={handleClose} className="text-[#6B705C] dark:text-[#A5A58D] font-bold uppercase text-[10px] tracking-widest p-2 hover:text-[#2C2420] dark:hover:text-[#FDFBF7]">
                 Zurück
             </button>
@@ -478,7 +681,9 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData,
               <p className="text-[#6B705C] dark:text-[#A5A58D] font-serif italic mb-8">
                   {newlySavedCount > 0 
                     ? `${newlySavedCount} neue Vokabeln wurden deiner Sammlung hinzugefügt.` 
-                    : "Alle Vokabeln dieser Seite wurden gespeichert."}
+                    : getVocabSavePolicy().autoSave
+                      ? "Keine neuen Vokabeln auf dieser Seite."
+                      : "Mit dem Lesezeichen gemerkte Wörter findest du in deiner Sammlung."}
               </p>
               
               <div className="flex flex-col gap-3 w-full max-w-xs">
@@ -510,11 +715,42 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData,
                     />
                 </div>
             </div>
-            <button onClick={handleClose} className="p-2 text-[#A5A58D] dark:text-[#2C2420] hover:text-[#B26B4A] dark:hover:text-[#D4A373]" title="Schließen & Speichern">
-                <XCircle className="w-5 h-5" />
-            </button>
+            <div className="flex items-center">
+                {currentSentence && (
+                    <button onClick={() => setEditingSentence(true)} className="p-2 text-[#A5A58D] dark:text-[#2C2420] hover:text-[#B26B4A] dark:hover:text-[#D4A373]" title="Satz korrigieren">
+                        <Pencil className="w-5 h-5" />
+                    </button>
+                )}
+                {(image || initialData?.imageRef) && (
+                    <button onClick={handleShowOriginal} disabled={loadingOriginal} className="p-2 text-[#A5A58D] dark:text-[#2C2420] hover:text-[#B26B4A] dark:hover:text-[#D4A373]" title="Originalseite anzeigen">
+                        {loadingOriginal ? <Loader2 className="w-5 h-5 animate-spin" /> : <ImageIcon className="w-5 h-5" />}
+                    </button>
+                )}
+                <button onClick={handleClose} className="p-2 text-[#A5A58D] dark:text-[#2C2420] hover:text-[#B26B4A] dark:hover:text-[#D4A373]" title="Schließen & Speichern">
+                    <XCircle className="w-5 h-5" />
+                </button>
+            </div>
         </div>
 
+        {showOriginal && image && result && (
+            <PageImageOverlay
+                image={image}
+                sentences={result.sentences}
+                currentIndex={currentSentenceIndex}
+                highlightBox={phase === 'words' ? currentLexicalItem?.word.box : undefined}
+                onSelectSentence={handleJumpToSentence}
+                onClose={() => setShowOriginal(false)}
+            />
+        )}
+
+        {editingSentence && currentSentence && (
+            <SentenceEditor sentence={currentSentence} onSave={handleSaveCorrection} onCancel={() => setEditingSentence(false)} />
+        )}
+
+        {showPractice && currentSentence && (
+            <PronunciationPractice text={currentSentence.original} translation={currentSentence.translation} onClose={() => setShowPractice(false)} />
+        )}
+
         {/* Scrollable Content Area */}
         <div className="flex-grow overflow-y-auto px-6 py-6 pb-32">
             <div className="max-w-2xl mx-auto flex flex-col justify-center min-h-[50vh]">
@@ -525,12 +761,23 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData,
                         <p className="text-2xl sm:text-3xl font-serif text-[#2C2420] dark:text-[#FDFBF7] leading-relaxed text-center italic">
                             {currentSentence?.original}
                         </p>
-                        <button 
-                            onClick={() => handlePlayAudio(currentSentence?.original || '', `s-${currentSentenceIndex}`)}
-                            className="w-12 h-12 bg-[#FDFBF7] dark:bg-[#1C1917] border border-[#EAE2D6] dark:border-[#2C2420] rounded-full flex items-center justify-center text-[#B26B4A] dark:text-[#D4A373] shadow-sm hover:scale-105 transition-transform"
-                        >
-                            {playingAudio === `s-${currentSentenceIndex}` ? <Loader2 className="w-5 h-5 animate-spin"/> : <Volume2 className="w-5 h-5" />}
-                        </button>
+                        <div className="flex gap-3">
+                            <button 
+                                onClick={() => handlePlayAudio(currentSentence?.original || '', `s-${currentSentenceIndex}`)}
+                                className="w-12 h-12 bg-[#FDFBF7] dark:bg-[#1C1917] border border-[#EAE2D6] dark:border-[#2C2420] rounded-full flex items-center justify-center text-[#B26B4A] dark:text-[#D4A373] shadow-sm hover:scale-105 transition-transform"
+                            >
+                                {playingAudio === `s-${currentSentenceIndex}` ? <Loader2 className="w-5 h-5 animate-spin"/> : <Volume2 className="w-5 h-5" />}
+                            </button>
+                            {isPronunciationSupported() && (
+                                <button
+                                    onClick={() => setShowPractice(true)}
+                                    title="Nachsprechen"
+                                    className="w-12 h-12 bg-[#FDFBF7] dark:bg-[#1C1917] border border-[#EAE2D6] dark:border-[#2C2420] rounded-full flex items-center justify-center text-[#6B705C] dark:text-[#A5A58D] shadow-sm hover:scale-105 transition-transform"
+                                >
+                                    <Mic className="w-5 h-5" />
+                                </button>
+                            )}
+                        </div>
                     </div>
                 )}
 
@@ -567,7 +814,15 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData,
                                     {playingAudio === `w-${currentSentenceIndex}-${currentWordIndex}` ? <Loader2 className="w-4 h-4 animate-spin text-white dark:text-[#12100E]"/> : <Volume2 className="w-4 h-4 text-white dark:text-[#12100E]" />}
                                 </button>
 
-                                <div className="mb-6">
+                                <button
+                                    onClick={() => handleToggleBookmark(currentLexicalItem.word)}
+                                    title={savedWords.has(currentLexicalItem.word.word.toLowerCase()) ? "Aus der Sammlung entfernen" : "Zur Sammlung hinzufügen"}
+                                    className="absolute top-6 right-20 w-10 h-10 border border-[#FDFBF7]/20 rounded-full flex items-center justify-center hover:scale-105 transition-transform z-10"
+                                >
+                                    <Bookmark className={`w-4 h-4 text-[#FEFAE0] dark:text-[#D4A373] ${savedWords.has(currentLexicalItem.word.word.toLowerCase()) ? 'fill-current' : ''}`} />
+                                </button>
+
+                                <div className="mb-6 pr-24">
                                     <div className="flex flex-wrap items-center gap-2 mb-2">
                                         {currentLexicalItem.parentWord && (
                                             <span className="text-[9px] font-bold uppercase tracking-[0.1em] text-[#FDFBF7]/50 border border-[#FDFBF7]/20 px-2 py-0.5 rounded-full">
@@ -643,12 +898,23 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ onChangeView, initialData,
                             <p className="text-2xl font-serif text-[#2C2420] dark:text-[#FDFBF7] leading-relaxed italic">
                                 {currentSentence.original}
                             </p>
-                            <button 
-                                onClick={() => handlePlayAudio(currentSentence.original, `s-${currentSentenceIndex}-trans`)}
-                                className="mx-auto w-10 h-10 mt-2 bg-[#FDFBF7] dark:bg-[#1C1917] border border-[#EAE2D6] dark:border-[#2C2420] rounded-full flex items-center justify-center text-[#B26B4A] dark:text-[#D4A373] hover:bg-[#FEFAE0] dark:hover:bg-[#2C2420] transition-colors"
-                            >
-                                {playingAudio === `s-${currentSentenceIndex}-trans` ? <Loader2 className="w-4 h-4 animate-spin"/> : <Volume2 className="w-4 h-4 fill-current" />}
-                            </button>
+                            <div className="flex justify-center gap-3 mt-2">
+                                <button 
+                                    onClick={() => handlePlayAudio(currentSentence.original, `s-${currentSentenceIndex}-trans`)}
+                                    className="w-10 h-10 bg-[#FDFBF7] dark:bg-[#1C1917] border border-[#EAE2D6] dark:border-[#2C2420] rounded-full flex items-center justify-center text-[#B26B4A] dark:text-[#D4A373] hover:bg-[#FEFAE0] dark:hover:bg-[#2C2420] transition-colors"
+                                >
+                                    {playingAudio === `s-${currentSentenceIndex}-trans` ? <Loader2 className="w-4 h-4 animate-spin"/> : <Volume2 className="w-4 h-4 fill-current" />}
+                                </button>
+                                {isPronunciationSupported() && (
+                                    <button
+                                        onClick={() => setShowPractice(true)}
+                                        title="Nachsprechen"
+                                        className="w-10 h-10 bg-[#FDFBF7] dark:bg-[#1C1917] border border-[#EAE2D6] dark:border-[#2C2420] rounded-full flex items-center justify-center text-[#6B705C] dark:text-[#A5A58D] hover:bg-[#FEFAE0] dark:hover:bg-[#2C2420] transition-colors"
+                                    >
+                                        <Mic className="w-4 h-4" />
+                                    </button>
+                                )}
+                            </div>
                         </div>
                         
                         <div className="w-16 h-[1px] bg-[#EAE2D6] dark:bg-[#2C2420] mx-auto" />
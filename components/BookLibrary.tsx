@@ -1,8 +1,12 @@
 
-import React, { useState, useEffect } from 'react';
-import { Book as BookIcon, Plus, Trash2, BookOpen, Calendar, ArrowLeft, ArrowRight } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Book as BookIcon, Plus, Trash2, BookOpen, Calendar, ArrowLeft, ArrowRight, Camera, RefreshCw, Loader2, Pencil, Check } from 'lucide-react';
 import { Book, BookPage, AppView, PageAnalysisResult } from '../types';
-import { getBooks, createBook, deleteBook, getBookPages } from '../services/storageService';
+import { getBooks, createBook, deleteBook, countBookOnlyVocab, getBookPages, deletePage, reorderPages, replacePageAnalysis, getPageImage, saveVocabFromAnalysis } from '../services/storageService';
+import { analyzeImage, analyzeText } from '../services/analysisService';
+import { AnalysisValidationError } from '../services/analysisValidation';
+import { GeminiRequestError, isCancelled } from '../services/geminiRequest';
+import CameraCapture from './CameraCapture';
 
 interface BookLibraryProps {
     onChangeView: (view: AppView) => void;
@@ -22,8 +26,16 @@ const BookLibrary: React.FC<BookLibraryProps> = ({ onChangeView, onOpenPage, onA
     const [activeBook, setActiveBook] = useState<Book | null>(null);
     const [pages, setPages] = useState<BookPage[]>([]);
 
+    // Page management
+    const [editMode, setEditMode] = useState(false);
+    const [draggedPageId, setDraggedPageId] = useState<string | null>(null);
+    const [busyPageId, setBusyPageId] = useState<string | null>(null);
+    const [photoTarget, setPhotoTarget] = useState<BookPage | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
     useEffect(() => {
         loadBooks();
+        return () => abortRef.current?.abort();
     }, []);
 
     useEffect(() => {
@@ -51,6 +63,75 @@ const BookLibrary: React.FC<BookLibraryProps> = ({ onChangeView, onOpenPage, onA
         setPages(data);
     }
 
+    const handleDeletePage = async (page: BookPage) => {
+        if (!activeBook) return;
+        if (!window.confirm(`Seite ${page.pageNumber} wirklich löschen? Gespeicherte Vokabeln bleiben erhalten.`)) return;
+        await deletePage(activeBook.id, page.id);
+        loadPages(activeBook.id);
+        loadBooks();
+    };
+
+    const handleMovePage = async (fromIdx: number, toIdx: number) => {
+        if (!activeBook || toIdx < 0 || toIdx >= pages.length || fromIdx === toIdx) return;
+        const reordered = [...pages];
+        const [moved] = reordered.splice(fromIdx, 1);
+        reordered.splice(toIdx, 0, moved);
+        // Show the new order right away, the store renumbers the same way
+        setPages(reordered.map((p, idx) => ({ ...p, pageNumber: idx + 1 })));
+        try {
+            await reorderPages(activeBook.id, reordered.map(p => p.id));
+        } catch (e) {
+            console.error("Failed to reorder pages", e);
+            alert("Die neue Reihenfolge konnte nicht gespeichert werden.");
+            loadPages(activeBook.id);
+        }
+    };
+
+    const handleDrop = (targetIdx: number) => {
+        const fromIdx = pages.findIndex(p => p.id === draggedPageId);
+        setDraggedPageId(null);
+        if (fromIdx !== -1) handleMovePage(fromIdx, targetIdx);
+    };
+
+    // Analyzes the page again, from a new photo or from the stored image (text pages from their sentences)
+    const reanalyzePage = async (page: BookPage, newImage?: string) => {
+        if (!activeBook || busyPageId) return;
+        setBusyPageId(page.id);
+        const controller = new AbortController();
+        abortRef.current = controller;
+        try {
+            const image = newImage || await getPageImage(page);
+            const analysis: PageAnalysisResult = image
+                ? await analyzeImage(image, controller.signal)
+                : await analyzeText(page.analysis.sentences.map(s => s.original).join(' '), controller.signal);
+            await replacePageAnalysis(activeBook.id, page.id, analysis, newImage);
+            await saveVocabFromAnalysis(analysis, { bookId: activeBook.id, pageId: page.id });
+            loadPages(activeBook.id);
+        } catch (err: any) {
+            if (isCancelled(err)) return;
+            console.error("Re-analysis failed", err);
+            if (err instanceof AnalysisValidationError || err instanceof GeminiRequestError) {
+                alert(err.message);
+            } else {
+                alert("Neue Analyse fehlgeschlagen. Die bisherige Seite bleibt unverändert.");
+            }
+        } finally {
+            setBusyPageId(null);
+        }
+    };
+
+    const handleReanalyze = (page: BookPage) => {
+        if (window.confirm(`Seite ${page.pageNumber} neu analysieren? Lesefortschritt und Vokabeln bleiben erhalten.`)) {
+            reanalyzePage(page);
+        }
+    };
+
+    const handlePhotoReplaced = (base64Image: string) => {
+        const page = photoTarget;
+        setPhotoTarget(null);
+        if (page) reanalyzePage(page, base64Image);
+    };
+
     const handleCreateBook = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!newTitle.trim() || isCreating) return;
@@ -73,7 +154,10 @@ const BookLibrary: React.FC<BookLibraryProps> = ({ onChangeView, onOpenPage, onA
     const handleDeleteBook = async (e: React.MouseEvent, id: string) => {
         e.stopPropagation();
         if (window.confirm("Buch wirklich löschen? Alle gespeicherten Seiten gehen verloren.")) {
-            await deleteBook(id);
+            const vocabCount = await countBookOnlyVocab(id);
+            const removeVocab = vocabCount > 0
+                && window.confirm(`${vocabCount} Vokabeln stammen nur aus diesem Buch. Sollen sie ebenfalls gelöscht werden?`);
+            await deleteBook(id, removeVocab);
             if (activeBook?.id === id) setActiveBook(null);
             loadBooks();
         }
@@ -81,10 +165,14 @@ const BookLibrary: React.FC<BookLibraryProps> = ({ onChangeView, onOpenPage, onA
 
     // --- VIEW: BOOK DETAIL ---
     if (activeBook) {
+        if (photoTarget) {
+            return <CameraCapture onCapture={handlePhotoReplaced} onCancel={() => setPhotoTarget(null)} />;
+        }
+
         return (
             <div className="animate-fade-in pb-24">
                 <button 
-                    onClick={() => setActiveBook(null)}
+                    onClick={() => { setActiveBook(null); setEditMode(false); }}
                     className="flex items-center gap-2 text-[#6B705C] dark:text-[#A5A58D] hover:text-[#2C2420] dark:hover:text-[#FDFBF7] mb-6 font-bold uppercase text-[10px] tracking-widest transition-colors"
                 >
                     <ArrowLeft className="w-4 h-4" />
@@ -108,15 +196,32 @@ const BookLibrary: React.FC<BookLibraryProps> = ({ onChangeView, onOpenPage, onA
 
                 <div className="flex justify-between items-center mb-6 px-2">
                     <h3 className="font-serif font-bold text-xl text-[#2C2420] dark:text-[#FDFBF7]">Seiten</h3>
-                    <button 
-                        onClick={() => onAddPage(activeBook.id)}
-                        className="flex items-center gap-2 bg-[#B26B4A] dark:bg-[#D4A373] text-white dark:text-[#12100E] px-5 py-2.5 rounded-xl font-bold uppercase text-[10px] tracking-widest shadow-md hover:scale-105 transition-transform"
-                    >
-                        <Plus className="w-4 h-4" />
-                        Seite scannen
-                    </button>
+                    <div className="flex items-center gap-2">
+                        {pages.length > 0 && (
+                            <button
+                                onClick={() => setEditMode(prev => !prev)}
+                                className="flex items-center gap-2 border border-[#EAE2D6] dark:border-[#2C2420] text-[#6B705C] dark:text-[#A5A58D] px-4 py-2.5 rounded-xl font-bold uppercase text-[10px] tracking-widest hover:bg-[#EAE2D6]/20 transition-colors"
+                            >
+                                {editMode ? <Check className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+                                {editMode ? 'Fertig' : 'Bearbeiten'}
+                            </button>
+                        )}
+                        <button 
+                            onClick={() => onAddPage(activeBook.id)}
+                            className="flex items-center gap-2 bg-[#B26B4A] dark:bg-[#D4A373] text-white dark:text-[#12100E] px-5 py-2.5 rounded-xl font-bold uppercase text-[10px] tracking-widest shadow-md hover:scale-105 transition-transform"
+                        >
+                            <Plus className="w-4 h-4" />
+                            Seite scannen
+                        </button>
+                    </div>
                 </div>
 
+                {editMode && (
+                    <p className="text-xs text-[#6B705C] dark:text-[#A5A58D] font-serif italic mb-4 px-2">
+                        Ziehe Seiten an ihre neue Position oder nutze die Pfeile.
+                    </p>
+                )}
+
                 {pages.length === 0 ? (
                      <div className="text-center py-12 border-2 border-dashed border-[#EAE2D6] dark:border-[#2C2420] rounded-3xl bg-white/50 dark:bg-[#1C1917]/50">
                         <BookOpen className="w-12 h-12 mx-auto text-[#A5A58D] mb-3" />
@@ -127,10 +232,28 @@ const BookLibrary: React.FC<BookLibraryProps> = ({ onChangeView, onOpenPage, onA
                         {pages.map((page, idx) => (
                             <div 
                                 key={page.id}
-                                onClick={() => onOpenPage(page)}
-                                className="group bg-white dark:bg-[#1C1917] rounded-2xl overflow-hidden border border-[#EAE2D6] dark:border-[#2C2420] cursor-pointer hover:shadow-lg transition-all hover:border-[#B26B4A]/50 relative aspect-[3/4]"
+                                onClick={() => !editMode && busyPageId !== page.id && onOpenPage(page)}
+                                draggable={editMode && !busyPageId}
+                                onDragStart={() => setDraggedPageId(page.id)}
+                                onDragEnd={() => setDraggedPageId(null)}
+                                onDragOver={e => { if (draggedPageId) e.preventDefault(); }}
+                                onDrop={e => { e.preventDefault(); handleDrop(idx); }}
+                                className={`group bg-white dark:bg-[#1C1917] rounded-2xl overflow-hidden border border-[#EAE2D6] dark:border-[#2C2420] hover:shadow-lg transition-all hover:border-[#B26B4A]/50 relative aspect-[3/4] ${editMode ? 'cursor-move' : 'cursor-pointer'} ${draggedPageId === page.id ? 'opacity-40' : ''}`}
                             >
-                                <div className="absolute inset-0 bg-cover bg-center opacity-90 group-hover:opacity-100 transition-opacity" style={{ backgroundImage: `url(data:image/jpeg;base64,${page.image})` }} />
+                                {page.thumbnail || page.image ? (
+                                    <img
+                                        src={`data:image/jpeg;base64,${page.thumbnail || page.image}`}
+                                        alt={`Seite ${page.pageNumber}`}
+                                        loading="lazy"
+                                        className="absolute inset-0 w-full h-full object-cover opacity-90 group-hover:opacity-100 transition-opacity"
+                                    />
+                                ) : (
+                                    <div className="absolute inset-0 p-4 bg-[#FDFBF7] dark:bg-[#12100E] overflow-hidden">
+                                        <p className="text-[10px] font-serif leading-relaxed text-[#2C2420] dark:text-[#FDFBF7] opacity-70">
+                                            {page.analysis.sentences.map(s => s.original).join(' ')}
+                                        </p>
+                                    </div>
+                                )}
                                 <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-60 group-hover:opacity-80" />
                                 <div className="absolute bottom-0 left-0 right-0 p-4">
                                     <span className="text-white text-xs font-bold uppercase tracking-widest block mb-1">Seite {page.pageNumber}</span>
@@ -138,6 +261,37 @@ const BookLibrary: React.FC<BookLibraryProps> = ({ onChangeView, onOpenPage, onA
                                         {page.analysis.sentences[0]?.original.substring(0, 50)}...
                                     </p>
                                 </div>
+
+                                {editMode && busyPageId !== page.id && (
+                                    <div className="absolute top-0 left-0 right-0 p-2 flex justify-between gap-1" onClick={e => e.stopPropagation()}>
+                                        <div className="flex gap-1">
+                                            <button onClick={() => handleMovePage(idx, idx - 1)} disabled={idx === 0} title="Nach vorne" className="p-2 bg-black/40 text-white rounded-full hover:bg-black/60 disabled:opacity-30 transition-colors">
+                                                <ArrowLeft className="w-3.5 h-3.5" />
+                                            </button>
+                                            <button onClick={() => handleMovePage(idx, idx + 1)} disabled={idx === pages.length - 1} title="Nach hinten" className="p-2 bg-black/40 text-white rounded-full hover:bg-black/60 disabled:opacity-30 transition-colors">
+                                                <ArrowRight className="w-3.5 h-3.5" />
+                                            </button>
+                                        </div>
+                                        <div className="flex gap-1">
+                                            <button onClick={() => setPhotoTarget(page)} disabled={!!busyPageId} title="Foto ersetzen" className="p-2 bg-black/40 text-white rounded-full hover:bg-black/60 disabled:opacity-30 transition-colors">
+                                                <Camera className="w-3.5 h-3.5" />
+                                            </button>
+                                            <button onClick={() => handleReanalyze(page)} disabled={!!busyPageId} title="Neu analysieren" className="p-2 bg-black/40 text-white rounded-full hover:bg-black/60 disabled:opacity-30 transition-colors">
+                                                <RefreshCw className="w-3.5 h-3.5" />
+                                            </button>
+                                            <button onClick={() => handleDeletePage(page)} disabled={!!busyPageId} title="Seite löschen" className="p-2 bg-black/40 text-white rounded-full hover:bg-red-500/80 disabled:opacity-30 transition-colors">
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+
+                                {busyPageId === page.id && (
+                                    <div className="absolute inset-0 bg-[#12100E]/70 flex flex-col items-center justify-center gap-2 text-white">
+                                        <Loader2 className="w-6 h-6 animate-spin" />
+                                        <span className="text-[10px] font-bold uppercase tracking-widest">Wird analysiert...</span>
+                                    </div>
+                                )}
                             </div>
                         ))}
                     </div>
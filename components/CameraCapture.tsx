@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Camera, Image as ImageIcon, Loader2, RotateCcw, Check, Maximize, Contrast } from 'lucide-react';
+import { Quad, FULL_FRAME, detectPageQuad, drawScaled, processPageImage } from '../services/documentScanner';
+
+interface CameraCaptureProps {
+  onCapture: (base64Image: string) => void;
+  onCancel: () => void;
+}
+
+// Captured frames are kept at this size; the warp later reduces the page to 1200px
+const MAX_SOURCE_SIZE = 2400;
+const DETECT_INTERVAL_MS = 400;
+
+const quadPoints = (quad: Quad) => quad.map(p => `${p.x},${p.y}`).join(' ');
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel }) => {
+  const [step, setStep] = useState<'camera' | 'crop'>('camera');
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [liveQuad, setLiveQuad] = useState<Quad | null>(null);
+  const [captured, setCaptured] = useState<HTMLCanvasElement | null>(null);
+  const [preview, setPreview] = useState<string>('');
+  const [quad, setQuad] = useState<Quad>(FULL_FRAME);
+  const [enhance, setEnhance] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cropAreaRef = useRef<HTMLDivElement>(null);
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  useEffect(() => {
+    if (step !== 'camera') return;
+    let cancelled = false;
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError('Dieser Browser unterstützt keinen Kamerazugriff.');
+        return;
+      }
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1920 } },
+          audio: false
+        });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+      } catch (e: any) {
+        console.error("Camera not available", e);
+        setCameraError(e?.name === 'NotAllowedError' ? 'Kein Zugriff auf die Kamera erlaubt.' : 'Die Kamera konnte nicht gestartet werden.');
+      }
+    };
+    start();
+    return () => {
+      cancelled = true;
+      stopCamera();
+    };
+  }, [step]);
+
+  // Live outline of the detected page while aiming the camera
+  useEffect(() => {
+    if (step !== 'camera' || cameraError) return;
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2 || !video.videoWidth) return;
+      setLiveQuad(detectPageQuad(video, video.videoWidth, video.videoHeight));
+    }, DETECT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [step, cameraError]);
+
+  const startCrop = (canvas: HTMLCanvasElement) => {
+    stopCamera();
+    setCaptured(canvas);
+    setPreview(canvas.toDataURL('image/jpeg', 0.7));
+    setQuad(detectPageQuad(canvas, canvas.width, canvas.height) || FULL_FRAME);
+    setStep('crop');
+  };
+
+  const handleShutter = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    startCrop(drawScaled(video, video.videoWidth, video.videoHeight, MAX_SOURCE_SIZE));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      startCrop(drawScaled(img, img.naturalWidth, img.naturalHeight, MAX_SOURCE_SIZE));
+      URL.revokeObjectURL(url);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      alert("Das Bild konnte nicht geladen werden.");
+    };
+    img.src = url;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragIndex === null || !cropAreaRef.current) return;
+    const rect = cropAreaRef.current.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    setQuad(prev => prev.map((p, idx) => idx === dragIndex ? { x, y } : p) as Quad);
+  };
+
+  const handleRetake = () => {
+    setCaptured(null);
+    setLiveQuad(null);
+    setCameraError(null);
+    setStep('camera');
+  };
+
+  const handleConfirm = () => {
+    if (!captured) return;
+    setProcessing(true);
+    // Let the spinner render before the synchronous warp blocks the main thread
+    setTimeout(() => {
+      try {
+        onCapture(processPageImage(captured, quad, enhance));
+      } catch (e) {
+        console.error("Processing failed", e);
+        alert("Das Bild konnte nicht verarbeitet werden.");
+        setProcessing(false);
+      }
+    }, 50);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-[#12100E] z-[60] flex flex-col animate-fade-in">
+      <header className="px-6 py-4 flex justify-between items-center text-[#FDFBF7]">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-[#A5A58D]">
+          {step === 'camera' ? 'Seite fotografieren' : 'Ecken anpassen'}
+        </span>
+        <button onClick={() => { stopCamera(); onCancel(); }} className="p-2 text-[#A5A58D] hover:text-[#FDFBF7]"><X className="w-5 h-5" /></button>
+      </header>
+
+      <input type="file" accept="image/*" ref={fileInputRef} className="hidden" onChange={handleFileChange} />
+
+      <main className="flex-grow flex items-center justify-center p-4 overflow-hidden">
+        {step === 'camera' && (
+          cameraError ? (
+            <div className="text-center max-w-xs">
+              <Camera className="w-10 h-10 text-[#A5A58D] mx-auto mb-4" />
+              <p className="text-[#FDFBF7] font-serif italic mb-6">{cameraError}</p>
+              <button onClick={() => fileInputRef.current?.click()} className="bg-[#D4A373] text-[#12100E] py-4 px-8 rounded-2xl font-bold uppercase text-[10px] tracking-widest">
+                Foto auswählen
+              </button>
+            </div>
+          ) : (
+            <div className="relative inline-block">
+              <video ref={videoRef} playsInline muted className="block max-w-full max-h-[70vh] rounded-2xl" />
+              {liveQuad && (
+                <svg viewBox="0 0 1 1" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+                  <polygon points={quadPoints(liveQuad)} fill="rgba(212,163,115,0.15)" stroke="#D4A373" strokeWidth="0.006" />
+                </svg>
+              )}
+            </div>
+          )
+        )}
+
+        {step === 'crop' && captured && (
+          <div
+            ref={cropAreaRef}
+            className="relative inline-block touch-none select-none"
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => setDragIndex(null)}
+            onPointerLeave={() => setDragIndex(null)}
+          >
+            <img src={preview} alt="Aufnahme" className="block max-w-full max-h-[65vh] rounded-2xl" draggable={false} />
+            <svg viewBox="0 0 1 1" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+              <polygon points={quadPoints(quad)} fill="rgba(212,163,115,0.15)" stroke="#D4A373" strokeWidth="0.005" />
+            </svg>
+            {quad.map((p, idx) => (
+              <div
+                key={idx}
+                onPointerDown={(e) => {
+                  e.preventDefault();
+                  setDragIndex(idx);
+                }}
+                className={`absolute w-8 h-8 -ml-4 -mt-4 rounded-full border-2 border-[#D4A373] cursor-grab ${dragIndex === idx ? 'bg-[#D4A373]/60 scale-125' : 'bg-[#12100E]/40'}`}
+                style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+
+      <footer className="p-6">
+        {step === 'camera' ? (
+          <div className="flex items-center justify-center gap-10">
+            <button onClick={() => fileInputRef.current?.click()} className="w-12 h-12 rounded-full bg-[#FDFBF7]/10 text-[#FDFBF7] flex items-center justify-center" title="Foto auswählen">
+              <ImageIcon className="w-5 h-5" />
+            </button>
+            <button onClick={handleShutter} disabled={!!cameraError} className="w-20 h-20 rounded-full border-4 border-[#FDFBF7] bg-[#D4A373] disabled:opacity-30 active:scale-95 transition-transform" title="Auslösen" />
+            <div className="w-12 h-12" />
+          </div>
+        ) : (
+          <div className="flex flex-col gap-3 max-w-md mx-auto">
+            <div className="flex gap-2">
+              <button onClick={handleRetake} className="flex-1 py-3 rounded-xl border border-[#2C2420] text-[#A5A58D] text-[10px] font-bold uppercase tracking-widest flex items-center justify-center gap-2">
+                <RotateCcw className="w-4 h-4" /> Neu
+              </button>
+              <button onClick={() => setQuad(FULL_FRAME)} className="flex-1 py-3 rounded-xl border border-[#2C2420] text-[#A5A58D] text-[10px] font-bold uppercase tracking-widest flex items-center justify-center gap-2">
+                <Maximize className="w-4 h-4" /> Ganzes Bild
+              </button>
+              <button onClick={() => setEnhance(!enhance)} className={`flex-1 py-3 rounded-xl border text-[10px] font-bold uppercase tracking-widest flex items-center justify-center gap-2 ${enhance ? 'border-[#D4A373] text-[#D4A373]' : 'border-[#2C2420] text-[#A5A58D]'}`}>
+                <Contrast className="w-4 h-4" /> Kontrast
+              </button>
+            </div>
+            <button onClick={handleConfirm} disabled={processing} className="w-full py-5 bg-[#D4A373] text-[#12100E] rounded-2xl font-bold uppercase text-[10px] tracking-[0.2em] shadow-xl flex items-center justify-center gap-2 disabled:opacity-50">
+              {processing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+              Seite analysieren
+            </button>
+          </div>
+        )}
+      </footer>
+    </div>
+  );
+};
+
+export default CameraCapture;
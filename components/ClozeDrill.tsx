@@ -0,0 +1,139 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { X, ChevronRight, Languages, Check, AlertCircle } from 'lucide-react';
+import { ClozeCard } from '../services/clozeBuilder';
+import { matchAnswer, AnswerMatch } from '../services/answerMatching';
+import { scheduleReview, formatInterval, ReviewRating } from '../services/srsScheduler';
+import { updateVocabStatus } from '../services/storageService';
+
+interface ClozeDrillProps {
+  cards: ClozeCard[];
+  onExit: () => void;
+}
+
+const ClozeDrill: React.FC<ClozeDrillProps> = ({ cards, onExit }) => {
+  const [queue, setQueue] = useState<ClozeCard[]>(cards);
+  const [index, setIndex] = useState(0);
+  const [input, setInput] = useState('');
+  const [result, setResult] = useState<AnswerMatch | null>(null);
+  const [showTranslation, setShowTranslation] = useState(false);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [finished, setFinished] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const card = queue[index];
+  const rating: ReviewRating | null = result === 'exact' ? 'good' : result === 'close' ? 'medium' : result === 'wrong' ? 'again' : null;
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, [index]);
+
+  const handleCheck = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() || result) return;
+    const match = matchAnswer(input, card.answer);
+    setResult(match);
+    if (match !== 'wrong') setCorrectCount(prev => prev + 1);
+  };
+
+  const handleNext = async () => {
+    if (!rating) return;
+    const review = scheduleReview(card.item, rating);
+    await updateVocabStatus(card.item.id, rating, review);
+
+    // Forgotten words come back at the end of this session
+    const next = [...queue];
+    if (rating === 'again') next.push({ ...card, item: { ...card.item, ...review, masteryLevel: rating } });
+    setQueue(next);
+
+    if (index < next.length - 1) {
+      setIndex(prev => prev + 1);
+      setInput('');
+      setResult(null);
+      setShowTranslation(false);
+    } else {
+      setFinished(true);
+    }
+  };
+
+  if (finished) {
+    return (
+      <div className="fixed inset-0 bg-[#FDFBF7] dark:bg-[#12100E] flex flex-col items-center justify-center z-[60] animate-fade-in p-6 text-center">
+        <h2 className="text-2xl font-serif font-bold text-[#2C2420] dark:text-[#FDFBF7] mb-2">Lückentext beendet!</h2>
+        <p className="text-[#6B705C] dark:text-[#A5A58D] font-serif italic mb-8">{correctCount} von {queue.length} Lücken richtig gefüllt.</p>
+        <button onClick={onExit} className="bg-[#2C2420] dark:bg-[#D4A373] text-white dark:text-[#12100E] px-8 py-4 rounded-2xl font-bold uppercase text-[10px] tracking-widest shadow-md">
+          Zurück zum Wortschatz
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-[#FDFBF7] dark:bg-[#12100E] flex flex-col z-[60] animate-fade-in">
+      <header className="px-6 py-4 flex justify-between items-center border-b border-[#EAE2D6] dark:border-[#2C2420]">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C]">{index + 1} / {queue.length}</span>
+        <button onClick={onExit} className="p-2 text-[#6B705C] hover:text-[#2C2420]"><X className="w-5 h-5" /></button>
+      </header>
+
+      <main className="flex-grow flex flex-col items-center justify-center p-8 overflow-y-auto">
+        <div className="w-full max-w-lg bg-white dark:bg-[#1C1917] rounded-[3rem] shadow-2xl border border-[#EAE2D6] dark:border-[#2C2420] flex flex-col p-10">
+          <span className="text-[9px] font-bold uppercase tracking-[0.3em] text-[#B26B4A] mb-6 text-center">{card.item.category || 'Wort'}</span>
+
+          <p className="text-2xl font-serif leading-relaxed text-[#2C2420] dark:text-[#FDFBF7] mb-6">
+            {card.before}
+            {result ? (
+              <span className={`font-bold ${result === 'wrong' ? 'text-red-600' : 'text-[#B26B4A]'}`}>{card.answer}</span>
+            ) : (
+              <span className="inline-block min-w-[4rem] border-b-2 border-[#B26B4A] mx-1">&nbsp;</span>
+            )}
+            {card.after}
+          </p>
+
+          <p className="text-xs text-[#6B705C] dark:text-[#A5A58D] font-serif mb-4">
+            Gesucht: <span className="font-bold">{card.item.word}</span> – <span className="italic">{card.item.translation}</span>
+          </p>
+
+          {card.sentenceTranslation && (
+            showTranslation ? (
+              <p className="text-sm font-serif italic text-[#6B705C] dark:text-[#A5A58D] p-4 bg-[#FEFAE0]/50 dark:bg-[#2C2420]/50 rounded-2xl animate-fade-in">{card.sentenceTranslation}</p>
+            ) : (
+              <button onClick={() => setShowTranslation(true)} className="self-start flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-[#6B705C] hover:text-[#B26B4A]">
+                <Languages className="w-4 h-4" /> Übersetzung als Hinweis
+              </button>
+            )
+          )}
+
+          {result && (
+            <div className={`flex items-center gap-2 mt-6 font-bold text-xs uppercase tracking-widest ${result === 'exact' ? 'text-emerald-600' : result === 'close' ? 'text-orange-600' : 'text-red-600'}`}>
+              {result === 'wrong' ? <AlertCircle className="w-4 h-4" /> : <Check className="w-4 h-4" />}
+              {result === 'exact' ? 'Richtig' : result === 'close' ? 'Fast richtig – auf Schreibweise achten' : `Leider falsch („${input}“)`}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <footer className="p-6 bg-[#FDFBF7] dark:bg-[#12100E] border-t border-[#EAE2D6] dark:border-[#2C2420]">
+        {rating ? (
+          <button onClick={handleNext} className="w-full py-5 bg-[#2C2420] text-white rounded-2xl font-bold uppercase text-[10px] tracking-[0.2em] shadow-xl flex items-center justify-center gap-2">
+            Weiter <span className="font-mono normal-case tracking-normal opacity-70">({formatInterval(scheduleReview(card.item, rating))})</span> <ChevronRight className="w-4 h-4" />
+          </button>
+        ) : (
+          <form onSubmit={handleCheck} className="flex gap-2">
+            <input
+              ref={inputRef}
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              autoCapitalize="off"
+              autoComplete="off"
+              spellCheck={false}
+              placeholder="Fehlendes Wort..."
+              className="flex-grow bg-white border border-[#EAE2D6] rounded-2xl py-4 px-4 font-serif outline-none focus:ring-2 focus:ring-[#B26B4A]/20 text-[#2C2420]"
+            />
+            <button type="submit" disabled={!input.trim()} className="px-6 bg-[#2C2420] text-white rounded-2xl font-bold uppercase text-[10px] tracking-[0.2em] shadow-xl disabled:opacity-30">Prüfen</button>
+          </form>
+        )}
+      </footer>
+    </div>
+  );
+};
+
+export default ClozeDrill;
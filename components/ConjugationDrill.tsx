@@ -0,0 +1,117 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { X, Check, AlertCircle, ChevronRight, Quote } from 'lucide-react';
+import { ConjugationCard, ConjugationResult, TENSE_LABELS, PERSON_LABELS, checkConjugation } from '../services/conjugation';
+
+interface ConjugationDrillProps {
+  cards: ConjugationCard[];
+  onExit: () => void;
+}
+
+const ConjugationDrill: React.FC<ConjugationDrillProps> = ({ cards, onExit }) => {
+  const [index, setIndex] = useState(0);
+  const [input, setInput] = useState('');
+  const [result, setResult] = useState<ConjugationResult | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [finished, setFinished] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const card = cards[index];
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, [index]);
+
+  const handleCheck = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (result) {
+      handleNext();
+      return;
+    }
+    if (!input.trim()) return;
+    const outcome = checkConjugation(input, card.answers);
+    setResult(outcome);
+    if (outcome !== 'wrong') setCorrectCount(prev => prev + 1);
+  };
+
+  const handleNext = () => {
+    if (index < cards.length - 1) {
+      setIndex(prev => prev + 1);
+      setInput('');
+      setResult(null);
+    } else {
+      setFinished(true);
+    }
+  };
+
+  if (finished) {
+    return (
+      <div className="fixed inset-0 bg-[#FDFBF7] dark:bg-[#12100E] flex flex-col items-center justify-center z-[60] animate-fade-in p-6 text-center">
+        <h2 className="text-2xl font-serif font-bold text-[#2C2420] dark:text-[#FDFBF7] mb-2">Konjugation beendet!</h2>
+        <p className="text-[#6B705C] dark:text-[#A5A58D] font-serif italic mb-8">{correctCount} von {cards.length} Formen richtig.</p>
+        <button onClick={onExit} className="bg-[#2C2420] dark:bg-[#D4A373] text-white dark:text-[#12100E] px-8 py-4 rounded-2xl font-bold uppercase text-[10px] tracking-widest shadow-md">
+          Zurück zum Wortschatz
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-[#FDFBF7] dark:bg-[#12100E] flex flex-col z-[60] animate-fade-in">
+      <header className="px-6 py-4 flex justify-between items-center border-b border-[#EAE2D6] dark:border-[#2C2420]">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C]">{index + 1} / {cards.length}</span>
+        <button onClick={onExit} className="p-2 text-[#6B705C] hover:text-[#2C2420]"><X className="w-5 h-5" /></button>
+      </header>
+
+      <main className="flex-grow flex flex-col items-center justify-center p-8 overflow-y-auto">
+        <form onSubmit={handleCheck} className="w-full max-w-sm bg-white dark:bg-[#1C1917] rounded-[3rem] shadow-2xl border border-[#EAE2D6] dark:border-[#2C2420] flex flex-col items-center p-10 text-center">
+          <span className="text-[9px] font-bold uppercase tracking-[0.3em] text-[#B26B4A] mb-6">{TENSE_LABELS[card.tense]}</span>
+          <h2 className="text-4xl font-serif font-bold text-[#2C2420] dark:text-[#FDFBF7] mb-1">{card.infinitive}</h2>
+          <p className="text-sm font-serif italic text-[#6B705C] dark:text-[#A5A58D] mb-6">{card.translation}</p>
+          <span className="px-4 py-2 rounded-xl bg-[#FEFAE0] dark:bg-[#2C2420] text-[#2C2420] dark:text-[#FDFBF7] font-serif font-bold mb-8">{PERSON_LABELS[card.person]}</span>
+
+          <input
+            ref={inputRef}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            disabled={result !== null}
+            autoCapitalize="off"
+            autoComplete="off"
+            spellCheck={false}
+            placeholder="Form eingeben..."
+            className="w-full bg-[#FDFBF7] dark:bg-[#12100E] border border-[#EAE2D6] dark:border-[#2C2420] rounded-2xl py-4 px-4 text-center text-xl font-serif outline-none focus:ring-2 focus:ring-[#B26B4A]/20 text-[#2C2420] dark:text-[#FDFBF7]"
+          />
+
+          {result && (
+            <div className="animate-fade-in mt-6 w-full">
+              <div className={`flex items-center justify-center gap-2 font-bold text-xs uppercase tracking-widest mb-2 ${result === 'correct' ? 'text-emerald-600' : result === 'accent' ? 'text-orange-600' : 'text-red-600'}`}>
+                {result === 'wrong' ? <AlertCircle className="w-4 h-4" /> : <Check className="w-4 h-4" />}
+                {result === 'correct' ? 'Richtig' : result === 'accent' ? 'Fast – Akzent beachten' : 'Leider falsch'}
+              </div>
+              <p className="text-2xl font-serif font-bold text-[#B26B4A]">{card.answers.join(' / ')}</p>
+              {card.fromTable && <p className="text-[10px] text-[#A5A58D] font-serif italic mt-1">Nach der Regel für regelmäßige Verben gebildet.</p>}
+              {card.contextSentence && (
+                <p className="text-xs font-serif italic text-[#6B705C] dark:text-[#A5A58D] mt-4 flex gap-2 text-left">
+                  <Quote className="w-3 h-3 shrink-0 mt-0.5" /> {card.contextSentence}
+                </p>
+              )}
+            </div>
+          )}
+        </form>
+      </main>
+
+      <footer className="p-6 bg-[#FDFBF7] dark:bg-[#12100E] border-t border-[#EAE2D6] dark:border-[#2C2420]">
+        {result ? (
+          <button onClick={handleNext} className="w-full py-5 bg-[#2C2420] text-white rounded-2xl font-bold uppercase text-[10px] tracking-[0.2em] shadow-xl flex items-center justify-center gap-2">
+            Weiter <ChevronRight className="w-4 h-4" />
+          </button>
+        ) : (
+          <button onClick={handleCheck} disabled={!input.trim()} className="w-full py-5 bg-[#2C2420] text-white rounded-2xl font-bold uppercase text-[10px] tracking-[0.2em] shadow-xl disabled:opacity-30">
+            Prüfen
+          </button>
+        )}
+      </footer>
+    </div>
+  );
+};
+
+export default ConjugationDrill;
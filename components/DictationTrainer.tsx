@@ -0,0 +1,164 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Volume2, Loader2, RotateCcw, ChevronRight, Headphones } from 'lucide-react';
+import { speak } from '../services/speechService';
+import { getDictationSentences, getDictationRecords, saveDictationResult } from '../services/storageService';
+import { DictationSentence, DiffToken, diffWords, diffAccuracy, selectDictationSentences } from '../services/dictation';
+import WordDiff from './WordDiff';
+
+interface DictationTrainerProps {
+  onExit: () => void;
+}
+
+const DictationTrainer: React.FC<DictationTrainerProps> = ({ onExit }) => {
+  const [queue, setQueue] = useState<DictationSentence[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [index, setIndex] = useState(0);
+  const [typed, setTyped] = useState('');
+  const [diff, setDiff] = useState<DiffToken[] | null>(null);
+  const [accuracies, setAccuracies] = useState<number[]>([]);
+  const [playing, setPlaying] = useState(false);
+  const [finished, setFinished] = useState(false);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const [sentences, records] = await Promise.all([getDictationSentences(), getDictationRecords()]);
+      setQueue(selectDictationSentences(sentences, records));
+      setLoading(false);
+    };
+    load();
+  }, []);
+
+  const current = queue[index];
+
+  const handlePlay = async () => {
+    if (playing || !current) return;
+    setPlaying(true);
+    try {
+      // Replays come from the speech cache (or the browser voice)
+      await speak(current.sentence);
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setPlaying(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  const handleCheck = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!typed.trim() || diff) return;
+    const tokens = diffWords(current.sentence, typed);
+    const accuracy = diffAccuracy(tokens);
+    setDiff(tokens);
+    setAccuracies(prev => [...prev, accuracy]);
+    await saveDictationResult(current.sentence, accuracy);
+  };
+
+  const handleNext = () => {
+    if (index < queue.length - 1) {
+      setIndex(prev => prev + 1);
+      setTyped('');
+      setDiff(null);
+    } else {
+      setFinished(true);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="fixed inset-0 bg-[#FDFBF7] dark:bg-[#12100E] flex items-center justify-center z-[60]">
+        <Loader2 className="w-8 h-8 animate-spin text-[#B26B4A]" />
+      </div>
+    );
+  }
+
+  if (queue.length === 0 || finished) {
+    const average = accuracies.length > 0 ? Math.round(accuracies.reduce((a, b) => a + b, 0) / accuracies.length * 100) : 0;
+    return (
+      <div className="fixed inset-0 bg-[#FDFBF7] dark:bg-[#12100E] flex flex-col items-center justify-center z-[60] animate-fade-in p-6 text-center">
+        <h2 className="text-2xl font-serif font-bold text-[#2C2420] dark:text-[#FDFBF7] mb-2">
+          {finished ? 'Diktat beendet!' : 'Noch keine Sätze'}
+        </h2>
+        <p className="text-[#6B705C] dark:text-[#A5A58D] font-serif italic mb-8 max-w-xs">
+          {finished
+            ? `Im Schnitt ${average} % der Wörter richtig. Schwierige Sätze kommen beim nächsten Diktat wieder.`
+            : 'Lies zuerst ein paar Seiten – das Diktat verwendet die Sätze aus deinen Büchern.'}
+        </p>
+        <button onClick={onExit} className="bg-[#2C2420] dark:bg-[#D4A373] text-white dark:text-[#12100E] px-8 py-4 rounded-2xl font-bold uppercase text-[10px] tracking-widest shadow-md">
+          Zurück zum Wortschatz
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-[#FDFBF7] dark:bg-[#12100E] flex flex-col z-[60] animate-fade-in">
+      <header className="px-6 py-4 flex justify-between items-center border-b border-[#EAE2D6] dark:border-[#2C2420]">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C]">{index + 1} / {queue.length}</span>
+        <button onClick={onExit} className="p-2 text-[#6B705C] hover:text-[#2C2420]"><X className="w-5 h-5" /></button>
+      </header>
+
+      <main className="flex-grow flex flex-col items-center justify-center p-8 overflow-y-auto">
+        <div className="w-full max-w-lg bg-white dark:bg-[#1C1917] rounded-[3rem] shadow-2xl border border-[#EAE2D6] dark:border-[#2C2420] flex flex-col items-center p-10 text-center">
+          <span className="text-[9px] font-bold uppercase tracking-[0.3em] text-[#B26B4A] mb-6 flex items-center gap-2"><Headphones className="w-3 h-3" /> Diktat</span>
+
+          <button
+            onClick={handlePlay}
+            className="w-20 h-20 bg-[#2C2420] dark:bg-[#D4A373] text-white dark:text-[#12100E] rounded-full flex items-center justify-center shadow-xl active:scale-95 transition-all mb-3"
+            title="Satz anhören"
+          >
+            {playing ? <Loader2 className="w-8 h-8 animate-spin" /> : <Volume2 className="w-8 h-8" />}
+          </button>
+          <p className="text-[10px] text-[#A5A58D] font-serif italic mb-8">Beliebig oft anhören, dann aufschreiben.</p>
+
+          {diff ? (
+            <div className="animate-fade-in w-full text-left">
+              <WordDiff tokens={diff} />
+              {current.translation && <p className="text-sm font-serif italic text-[#6B705C] dark:text-[#A5A58D] mt-4">{current.translation}</p>}
+              <p className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C] mt-6">
+                {Math.round(diffAccuracy(diff) * 100)} % der Wörter richtig
+              </p>
+            </div>
+          ) : (
+            <form onSubmit={handleCheck} className="w-full">
+              <textarea
+                ref={inputRef}
+                value={typed}
+                onChange={(e) => setTyped(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) handleCheck(e);
+                }}
+                rows={3}
+                autoCapitalize="off"
+                autoComplete="off"
+                spellCheck={false}
+                placeholder="Was hast du gehört?"
+                className="w-full bg-[#FDFBF7] dark:bg-[#12100E] border border-[#EAE2D6] dark:border-[#2C2420] rounded-2xl p-4 text-lg font-serif outline-none focus:ring-2 focus:ring-[#B26B4A]/20 text-[#2C2420] dark:text-[#FDFBF7] resize-none"
+              />
+            </form>
+          )}
+        </div>
+      </main>
+
+      <footer className="p-6 bg-[#FDFBF7] dark:bg-[#12100E] border-t border-[#EAE2D6] dark:border-[#2C2420] flex gap-3">
+        {diff ? (
+          <>
+            <button onClick={handlePlay} className="w-14 h-14 flex items-center justify-center bg-white border border-[#EAE2D6] rounded-2xl text-[#6B705C]" title="Nochmal anhören">
+              <RotateCcw className="w-5 h-5" />
+            </button>
+            <button onClick={handleNext} className="flex-grow py-5 bg-[#2C2420] text-white rounded-2xl font-bold uppercase text-[10px] tracking-[0.2em] shadow-xl flex items-center justify-center gap-2">
+              Weiter <ChevronRight className="w-4 h-4" />
+            </button>
+          </>
+        ) : (
+          <button onClick={handleCheck} disabled={!typed.trim()} className="w-full py-5 bg-[#2C2420] text-white rounded-2xl font-bold uppercase text-[10px] tracking-[0.2em] shadow-xl disabled:opacity-30">
+            Prüfen
+          </button>
+        )}
+      </footer>
+    </div>
+  );
+};
+
+export default DictationTrainer;
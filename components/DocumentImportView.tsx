@@ -0,0 +1,193 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Loader2, CheckCircle, AlertCircle, RotateCcw, SkipForward, FileText, X } from 'lucide-react';
+import { ImportPageSource } from '../services/documentImportService';
+import { analyzeImage, analyzeText } from '../services/analysisService';
+import { isCancelled } from '../services/geminiRequest';
+import { addPageToBook, saveVocabFromAnalysis, getBookPages, reorderPages } from '../services/storageService';
+
+interface DocumentImportViewProps {
+    fileName: string;
+    sources: ImportPageSource[];
+    bookId: string;
+    onFinished: () => void;
+}
+
+type ImportStatus = 'pending' | 'processing' | 'done' | 'error' | 'skipped';
+
+interface QueueEntry {
+    source: ImportPageSource;
+    status: ImportStatus;
+    error?: string;
+}
+
+const DocumentImportView: React.FC<DocumentImportViewProps> = ({ fileName, sources, bookId, onFinished }) => {
+    const [queue, setQueue] = useState<QueueEntry[]>(() => sources.map(source => ({ source, status: 'pending' })));
+    const [running, setRunning] = useState(true);
+    const [savedVocabCount, setSavedVocabCount] = useState(0);
+    const cancelledRef = useRef(false);
+    const abortRef = useRef<AbortController | null>(null);
+    const activeIndexRef = useRef<number | null>(null);
+    // Saved page per queue position, to keep retried pages in source order
+    const savedPageIdsRef = useRef<string[]>([]);
+
+    const updateEntry = (index: number, patch: Partial<QueueEntry>) => {
+        setQueue(prev => prev.map((entry, idx) => idx === index ? { ...entry, ...patch } : entry));
+    };
+
+    // A page saved after later ones (a retried skip) was appended at the end; the imported pages
+    // are moved back into source order where the first of them stands
+    const restoreSourceOrder = async (index: number, pageId: string) => {
+        const saved = savedPageIdsRef.current;
+        saved[index] = pageId;
+        if (saved.length <= index + 1) return;
+
+        const importedIds = saved.filter(Boolean);
+        const imported = new Set(importedIds);
+        const pageIds = (await getBookPages(bookId)).map(p => p.id);
+        const insertAt = pageIds.findIndex(id => imported.has(id));
+        const others = pageIds.filter(id => !imported.has(id));
+        await reorderPages(bookId, [...others.slice(0, insertAt), ...importedIds, ...others.slice(insertAt)]);
+    };
+
+    // Process the next pending page; the queue pauses as soon as a page fails
+    useEffect(() => {
+        if (!running || activeIndexRef.current !== null) return;
+        if (queue.some(e => e.status === 'error')) {
+            setRunning(false);
+            return;
+        }
+        const index = queue.findIndex(e => e.status === 'pending');
+        if (index === -1) {
+            setRunning(false);
+            return;
+        }
+
+        const processPage = async () => {
+            activeIndexRef.current = index;
+            updateEntry(index, { status: 'processing', error: undefined });
+            let patch: Partial<QueueEntry>;
+            try {
+                const controller = new AbortController();
+                abortRef.current = controller;
+                const content = await queue[index].source.load();
+                const analysis = content.image
+                    ? await analyzeImage(content.image, controller.signal)
+                    : await analyzeText(content.text || '', controller.signal);
+                if (cancelledRef.current) return;
+
+                const pageId = await addPageToBook(bookId, content.image || null, analysis);
+                await restoreSourceOrder(index, pageId);
+                const added = await saveVocabFromAnalysis(analysis, { bookId, pageId });
+                setSavedVocabCount(prev => prev + added);
+                patch = { status: 'done' };
+            } catch (err: any) {
+                if (isCancelled(err)) return;
+                console.error("Import of page failed", err);
+                patch = { status: 'error', error: err?.message || 'Unbekannter Fehler' };
+            }
+            // Release the lock before the state update that triggers the next page
+            activeIndexRef.current = null;
+            updateEntry(index, patch);
+        };
+        processPage();
+    }, [queue, running, bookId]);
+
+    useEffect(() => {
+        cancelledRef.current = false;
+        return () => {
+            cancelledRef.current = true;
+            abortRef.current?.abort();
+        };
+    }, []);
+
+    const handleRetry = () => {
+        setQueue(prev => prev.map(e => e.status === 'error' ? { ...e, status: 'pending', error: undefined } : e));
+        setRunning(true);
+    };
+
+    const handleSkip = () => {
+        setQueue(prev => prev.map(e => e.status === 'error' ? { ...e, status: 'skipped' } : e));
+        setRunning(true);
+    };
+
+    const handleRetrySkipped = () => {
+        setQueue(prev => prev.map(e => e.status === 'skipped' ? { ...e, status: 'pending' } : e));
+        setRunning(true);
+    };
+
+    const doneCount = queue.filter(e => e.status === 'done').length;
+    const skippedCount = queue.filter(e => e.status === 'skipped').length;
+    const failedEntry = queue.find(e => e.status === 'error');
+    const isComplete = !running && !failedEntry;
+    const progress = queue.length > 0 ? ((doneCount + skippedCount) / queue.length) * 100 : 0;
+
+    return (
+        <div className="fixed inset-0 bg-[#FDFBF7] dark:bg-[#12100E] z-50 flex flex-col items-center justify-center p-6 animate-fade-in">
+            <div className="w-full max-w-md">
+                <div className="flex items-center gap-4 mb-6">
+                    <div className="w-12 h-12 bg-[#FEFAE0] dark:bg-[#2C2420] rounded-xl flex items-center justify-center text-[#B26B4A] dark:text-[#D4A373] shrink-0">
+                        <FileText className="w-6 h-6" />
+                    </div>
+                    <div className="min-w-0">
+                        <h2 className="text-xl font-serif font-bold text-[#2C2420] dark:text-[#FDFBF7] truncate">{fileName}</h2>
+                        <p className="text-xs text-[#6B705C] dark:text-[#A5A58D] font-serif italic">
+                            {doneCount} von {queue.length} Seiten importiert · {savedVocabCount} neue Vokabeln
+                        </p>
+                    </div>
+                </div>
+
+                <div className="h-1.5 bg-[#EAE2D6] dark:bg-[#2C2420] rounded-full overflow-hidden mb-6">
+                    <div className="h-full bg-[#B26B4A] dark:bg-[#D4A373] transition-all duration-500" style={{ width: `${progress}%` }} />
+                </div>
+
+                <div className="space-y-2 max-h-[40vh] overflow-y-auto mb-6 pr-2">
+                    {queue.map((entry, idx) => (
+                        <div key={idx} className="flex items-center gap-3 p-3 bg-white dark:bg-[#1C1917] border border-[#EAE2D6] dark:border-[#2C2420] rounded-xl">
+                            {entry.status === 'processing' && <Loader2 className="w-4 h-4 animate-spin text-[#B26B4A] dark:text-[#D4A373] shrink-0" />}
+                            {entry.status === 'done' && <CheckCircle className="w-4 h-4 text-[#6B705C] dark:text-[#A5A58D] shrink-0" />}
+                            {entry.status === 'error' && <AlertCircle className="w-4 h-4 text-red-500 shrink-0" />}
+                            {entry.status === 'skipped' && <X className="w-4 h-4 text-[#A5A58D] shrink-0" />}
+                            {entry.status === 'pending' && <div className="w-4 h-4 rounded-full border border-[#EAE2D6] dark:border-[#2C2420] shrink-0" />}
+                            <div className="min-w-0">
+                                <p className="text-xs font-bold text-[#2C2420] dark:text-[#FDFBF7]">{entry.source.label}</p>
+                                {entry.error && <p className="text-[10px] text-red-500 font-serif italic truncate">{entry.error}</p>}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                {failedEntry && (
+                    <div className="flex gap-3">
+                        <button onClick={handleSkip} className="flex-1 py-4 rounded-2xl font-bold uppercase text-[10px] tracking-widest border border-[#EAE2D6] dark:border-[#2C2420] text-[#6B705C] dark:text-[#A5A58D] flex items-center justify-center gap-2">
+                            <SkipForward className="w-4 h-4" /> Überspringen
+                        </button>
+                        <button onClick={handleRetry} className="flex-1 bg-[#2C2420] dark:bg-[#D4A373] text-white dark:text-[#12100E] py-4 rounded-2xl font-bold uppercase text-[10px] tracking-widest shadow-lg flex items-center justify-center gap-2">
+                            <RotateCcw className="w-4 h-4" /> Erneut versuchen
+                        </button>
+                    </div>
+                )}
+
+                {isComplete && (
+                    <div className="flex flex-col gap-3">
+                        {skippedCount > 0 && (
+                            <button onClick={handleRetrySkipped} className="w-full py-4 rounded-2xl font-bold uppercase text-[10px] tracking-widest border border-[#EAE2D6] dark:border-[#2C2420] text-[#6B705C] dark:text-[#A5A58D]">
+                                {skippedCount} übersprungene Seiten nachholen
+                            </button>
+                        )}
+                        <button onClick={onFinished} className="w-full bg-[#2C2420] dark:bg-[#D4A373] text-white dark:text-[#12100E] py-4 rounded-2xl font-bold uppercase text-[10px] tracking-widest shadow-lg">
+                            Zum Buch
+                        </button>
+                    </div>
+                )}
+
+                {running && (
+                    <button onClick={() => { cancelledRef.current = true; onFinished(); }} className="w-full text-[#6B705C] dark:text-[#A5A58D] font-bold uppercase text-[10px] tracking-widest p-2 hover:text-[#2C2420] dark:hover:text-[#FDFBF7]">
+                        Import abbrechen
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default DocumentImportView;
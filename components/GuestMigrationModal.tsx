@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { UploadCloud, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { GuestDataSummary, migrateGuestData, discardGuestData } from '../services/guestMigrationService';
+
+interface GuestMigrationModalProps {
+  uid: string;
+  summary: GuestDataSummary;
+  onClose: () => void;
+}
+
+const GuestMigrationModal: React.FC<GuestMigrationModalProps> = ({ uid, summary, onClose }) => {
+  const [migrating, setMigrating] = useState(false);
+  const [result, setResult] = useState<GuestDataSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleMigrate = async () => {
+    setMigrating(true);
+    setError(null);
+    try {
+      setResult(await migrateGuestData(uid));
+    } catch (e: any) {
+      console.error("Guest migration failed", e);
+      setError(e?.message || "Die Übernahme ist fehlgeschlagen.");
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!window.confirm("Die lokal gespeicherten Gast-Daten werden endgültig gelöscht. Fortfahren?")) return;
+    await discardGuestData();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-6 bg-[#12100E]/80 backdrop-blur-sm animate-fade-in">
+      <div className="w-full max-w-md bg-[#FDFBF7] dark:bg-[#1C1917] rounded-[2.5rem] shadow-2xl border border-[#EAE2D6] dark:border-[#2C2420] p-8">
+        <div className="mb-6">
+          <div className="w-14 h-14 bg-[#FEFAE0] dark:bg-[#2C2420] rounded-2xl flex items-center justify-center text-[#B26B4A] dark:text-[#D4A373] mb-4">
+            {result ? <CheckCircle className="w-7 h-7" /> : <UploadCloud className="w-7 h-7" />}
+          </div>
+          <h2 className="text-2xl font-serif font-bold text-[#2C2420] dark:text-[#FDFBF7] mb-2">
+            {result ? 'Daten übernommen' : 'Gast-Daten gefunden'}
+          </h2>
+          <p className="text-[#6B705C] dark:text-[#A5A58D] text-sm font-serif italic">
+            {result
+              ? 'Deine Sammlung ist jetzt mit deinem Konto verknüpft und wird synchronisiert. Bereits vorhandene Einträge wurden übersprungen.'
+              : 'Auf diesem Gerät liegen Daten aus der Gast-Nutzung. Möchtest du sie in dein Konto übernehmen?'}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 mb-6">
+          {[
+            { label: 'Bücher', value: (result || summary).books },
+            { label: 'Seiten', value: (result || summary).pages },
+            { label: 'Vokabeln', value: (result || summary).vocab }
+          ].map(stat => (
+            <div key={stat.label} className="bg-white dark:bg-[#12100E] border border-[#EAE2D6] dark:border-[#2C2420] rounded-2xl p-4 text-center">
+              <p className="text-2xl font-serif font-bold text-[#2C2420] dark:text-[#FDFBF7]">{stat.value}</p>
+              <p className="text-[9px] font-bold uppercase tracking-widest text-[#6B705C] dark:text-[#A5A58D]">{stat.label}</p>
+            </div>
+          ))}
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 mb-4 bg-red-50 dark:bg-red-900/10 rounded-xl border border-red-100 dark:border-red-900/30">
+            <AlertCircle className="w-4 h-4 text-red-500 shrink-0" />
+            <p className="text-xs text-red-600 dark:text-red-400 font-serif">{error}</p>
+          </div>
+        )}
+
+        {result ? (
+          <button
+            onClick={onClose}
+            className="w-full bg-[#2C2420] dark:bg-[#D4A373] text-white dark:text-[#12100E] py-4 rounded-2xl font-bold uppercase text-[10px] tracking-[0.2em] shadow-xl active:scale-95 transition-all"
+          >
+            Weiter
+          </button>
+        ) : (
+          <div className="space-y-2">
+            <button
+              onClick={handleMigrate}
+              disabled={migrating}
+              className="w-full bg-[#2C2420] dark:bg-[#D4A373] text-white dark:text-[#12100E] py-4 rounded-2xl font-bold uppercase text-[10px] tracking-[0.2em] shadow-xl active:scale-95 transition-all flex items-center justify-center gap-3 disabled:opacity-50"
+            >
+              {migrating ? <Loader2 className="w-4 h-4 animate-spin" /> : <UploadCloud className="w-4 h-4" />}
+              In mein Konto übernehmen
+            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={onClose}
+                disabled={migrating}
+                className="flex-1 text-[#A5A58D] text-[10px] font-bold uppercase tracking-widest p-3 hover:text-[#6B705C] transition-colors disabled:opacity-30"
+              >
+                Später
+              </button>
+              <button
+                onClick={handleDiscard}
+                disabled={migrating}
+                className="flex-1 text-[#A5A58D] text-[10px] font-bold uppercase tracking-widest p-3 hover:text-red-500 transition-colors disabled:opacity-30"
+              >
+                Verwerfen
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GuestMigrationModal;
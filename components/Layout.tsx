@@ -1,9 +1,10 @@
 
-import React from 'react';
-import { Book, Camera, Bookmark, Sparkles, Settings, Moon, Sun, LogOut, User } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Book, Camera, Bookmark, Sparkles, Settings, Moon, Sun, LogOut, User, CloudOff, RefreshCw } from 'lucide-react';
 import { AppView } from '../types';
 import { auth } from '../services/firebase';
 import { signOut } from 'firebase/auth';
+import { SyncStatus, subscribeSyncStatus } from '../services/syncService';
 
 interface LayoutProps {
   currentView: AppView;
@@ -24,6 +25,10 @@ const Layout: React.FC<LayoutProps> = ({
   isGuest,
   onLogoutGuest 
 }) => {
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+
+  useEffect(() => subscribeSyncStatus(setSyncStatus), []);
+
   const handleLogout = async () => {
     if (window.confirm("Möchten Sie sich wirklich abmelden?")) {
       if (isGuest) {
@@ -79,6 +84,17 @@ const Layout: React.FC<LayoutProps> = ({
           </nav>
 
           <div className="flex items-center gap-2">
+            {!isGuest && syncStatus && (!syncStatus.online || syncStatus.syncing || syncStatus.pending > 0) && (
+              <div
+                className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-xl text-[#6B705C] dark:text-[#A5A58D]"
+                title={!syncStatus.online ? "Offline – Änderungen werden später synchronisiert" : "Synchronisiere…"}
+              >
+                {syncStatus.online
+                  ? <RefreshCw className={`w-3.5 h-3.5 ${syncStatus.syncing ? 'animate-spin' : ''}`} />
+                  : <CloudOff className="w-3.5 h-3.5" />}
+                {syncStatus.pending > 0 && <span className="text-[10px] font-bold">{syncStatus.pending}</span>}
+              </div>
+            )}
             <div className="hidden lg:flex items-center gap-2 px-3 py-1.5 bg-[#FDFBF7] dark:bg-[#1C1917] border border-[#EAE2D6] dark:border-[#2C2420] rounded-xl mr-2">
               <User className="w-3.5 h-3.5 text-[#B26B4A] dark:text-[#D4A373]" />
               <span className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C] dark:text-[#A5A58D]">
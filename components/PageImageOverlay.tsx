@@ -0,0 +1,54 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { BoundingBox, LineBox, SentenceAnalysis } from '../types';
+import { toLineBox } from '../services/analysisValidation';
+
+interface PageImageOverlayProps {
+  image: string;
+  sentences: SentenceAnalysis[];
+  currentIndex: number;
+  highlightBox?: BoundingBox;
+  onSelectSentence: (index: number) => void;
+  onClose: () => void;
+}
+
+const boxStyle = ({ ymin, xmin, ymax, xmax }: LineBox): React.CSSProperties => ({
+  top: `${ymin / 10}%`,
+  left: `${xmin / 10}%`,
+  height: `${(ymax - ymin) / 10}%`,
+  width: `${(xmax - xmin) / 10}%`
+});
+
+// The original photo with every recognized line as a tap target; the current sentence is highlighted.
+const PageImageOverlay: React.FC<PageImageOverlayProps> = ({ image, sentences, currentIndex, highlightBox, onSelectSentence, onClose }) => {
+  // Pages analysed before boxes were stored as objects still carry arrays
+  const lineBoxes = (sentence: SentenceAnalysis) => (sentence.boxes || []).map(toLineBox).filter((box): box is LineBox => box !== null);
+  const hasPositions = sentences.some(s => lineBoxes(s).length > 0);
+  const wordBox = highlightBox ? toLineBox(highlightBox) : null;
+
+  return (
+    <div onClick={onClose} className="fixed inset-0 z-[60] bg-[#12100E]/95 flex flex-col items-center justify-center p-4 animate-fade-in">
+      <button onClick={onClose} className="absolute top-4 right-4 p-2 text-[#A5A58D] hover:text-[#FDFBF7]"><X className="w-5 h-5" /></button>
+      <div className="relative inline-block" onClick={(e) => e.stopPropagation()}>
+        <img src={`data:image/jpeg;base64,${image}`} alt="Originalseite" className="block max-w-full max-h-[85vh] object-contain rounded-xl shadow-2xl" />
+        {sentences.map((sentence, idx) => lineBoxes(sentence).map((box, lineIdx) => (
+          <button
+            key={`${idx}-${lineIdx}`}
+            onClick={() => onSelectSentence(idx)}
+            title={sentence.original}
+            className={`absolute rounded-sm transition-colors ${idx === currentIndex ? 'bg-[#D4A373]/35 ring-1 ring-[#D4A373]' : 'hover:bg-[#D4A373]/20'}`}
+            style={boxStyle(box)}
+          />
+        )))}
+        {wordBox && (
+          <div className="absolute rounded-sm ring-2 ring-[#B26B4A] pointer-events-none" style={boxStyle(wordBox)} />
+        )}
+      </div>
+      <p className="text-[10px] font-bold uppercase tracking-widest text-[#A5A58D] mt-4">
+        {hasPositions ? 'Tippe auf eine Zeile, um dort weiterzulesen' : 'Für diese Seite sind keine Positionen gespeichert'}
+      </p>
+    </div>
+  );
+};
+
+export default PageImageOverlay;
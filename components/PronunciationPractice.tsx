@@ -0,0 +1,132 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Mic, Square, Volume2, Loader2, RotateCcw } from 'lucide-react';
+import { speak, stopSpeaking } from '../services/speechService';
+import { PronunciationRecording, PronunciationResult, startPronunciationAttempt, scorePronunciation } from '../services/pronunciationService';
+import WordDiff from './WordDiff';
+
+interface PronunciationPracticeProps {
+  text: string;
+  translation?: string;
+  onClose: () => void;
+}
+
+type PracticeState = 'idle' | 'recording' | 'evaluating' | 'done';
+
+const PronunciationPractice: React.FC<PronunciationPracticeProps> = ({ text, translation, onClose }) => {
+  const [state, setState] = useState<PracticeState>('idle');
+  const [result, setResult] = useState<PronunciationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const recordingRef = useRef<PronunciationRecording | null>(null);
+
+  // Never leave the microphone open when the overlay closes
+  useEffect(() => () => {
+    recordingRef.current?.cancel();
+    stopSpeaking();
+  }, []);
+
+  const handleListen = async () => {
+    if (playing) {
+      stopSpeaking();
+      return;
+    }
+    setPlaying(true);
+    try {
+      await speak(text);
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setPlaying(false);
+    }
+  };
+
+  const handleStart = async () => {
+    stopSpeaking();
+    setError(null);
+    setResult(null);
+    try {
+      recordingRef.current = await startPronunciationAttempt();
+      setState('recording');
+    } catch (e: any) {
+      console.error("Recording failed", e);
+      setError(e?.message || 'Aufnahme nicht möglich.');
+      setState('idle');
+    }
+  };
+
+  const handleStop = async () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recordingRef.current = null;
+    setState('evaluating');
+    try {
+      const transcript = await recording.stop();
+      if (!transcript) {
+        setError('Es wurde nichts verstanden. Sprich etwas lauter oder näher am Mikrofon.');
+        setState('idle');
+        return;
+      }
+      setResult(scorePronunciation(text, transcript));
+      setState('done');
+    } catch (e: any) {
+      console.error("Evaluation failed", e);
+      setError(e?.message || 'Auswertung fehlgeschlagen.');
+      setState('idle');
+    }
+  };
+
+  const accuracy = result ? Math.round(result.accuracy * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 bg-[#FDFBF7] dark:bg-[#12100E] flex flex-col z-[70] animate-fade-in">
+      <header className="px-6 py-4 flex justify-between items-center border-b border-[#EAE2D6] dark:border-[#2C2420]">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C]">Nachsprechen</span>
+        <button onClick={onClose} className="p-2 text-[#6B705C] hover:text-[#2C2420]"><X className="w-5 h-5" /></button>
+      </header>
+
+      <main className="flex-grow flex flex-col items-center justify-center p-8 overflow-y-auto">
+        <div className="w-full max-w-lg bg-white dark:bg-[#1C1917] rounded-[3rem] shadow-2xl border border-[#EAE2D6] dark:border-[#2C2420] flex flex-col items-center p-10 text-center">
+          {result ? (
+            <div className="animate-fade-in w-full">
+              <WordDiff tokens={result.tokens} className="text-center" />
+              <p className="text-xs font-serif italic text-[#A5A58D] mt-4">Verstanden: „{result.transcript}“</p>
+              <p className={`text-[10px] font-bold uppercase tracking-widest mt-6 ${accuracy >= 90 ? 'text-emerald-700 dark:text-emerald-400' : 'text-[#B26B4A]'}`}>
+                {accuracy} % der Wörter erkannt
+              </p>
+            </div>
+          ) : (
+            <>
+              <p className="text-2xl font-serif italic text-[#2C2420] dark:text-[#FDFBF7] leading-relaxed">{text}</p>
+              {translation && <p className="text-sm font-serif italic text-[#6B705C] dark:text-[#A5A58D] mt-4">{translation}</p>}
+            </>
+          )}
+
+          <button onClick={handleListen} className="mt-8 p-3 bg-[#FEFAE0] dark:bg-[#2C2420] rounded-full text-[#B26B4A] dark:text-[#D4A373]" title="Vorlesen">
+            {playing ? <Loader2 className="w-5 h-5 animate-spin" /> : <Volume2 className="w-5 h-5" />}
+          </button>
+
+          {error && <p className="text-xs text-red-500 font-serif italic mt-6">{error}</p>}
+        </div>
+      </main>
+
+      <footer className="p-6 bg-[#FDFBF7] dark:bg-[#12100E] border-t border-[#EAE2D6] dark:border-[#2C2420] flex justify-center">
+        {state === 'recording' ? (
+          <button onClick={handleStop} className="w-full max-w-lg py-5 bg-red-600 text-white rounded-2xl font-bold uppercase text-[10px] tracking-[0.2em] shadow-xl flex items-center justify-center gap-2 animate-pulse">
+            <Square className="w-4 h-4 fill-current" /> Aufnahme beenden
+          </button>
+        ) : state === 'evaluating' ? (
+          <div className="w-full max-w-lg py-5 bg-[#EAE2D6] dark:bg-[#2C2420] text-[#6B705C] rounded-2xl font-bold uppercase text-[10px] tracking-[0.2em] flex items-center justify-center gap-2">
+            <Loader2 className="w-4 h-4 animate-spin" /> Wird ausgewertet
+          </div>
+        ) : (
+          <button onClick={handleStart} className="w-full max-w-lg py-5 bg-[#2C2420] dark:bg-[#D4A373] text-white dark:text-[#12100E] rounded-2xl font-bold uppercase text-[10px] tracking-[0.2em] shadow-xl flex items-center justify-center gap-2">
+            {state === 'done' ? <RotateCcw className="w-4 h-4" /> : <Mic className="w-4 h-4" />}
+            {state === 'done' ? 'Nochmal sprechen' : 'Aufnahme starten'}
+          </button>
+        )}
+      </footer>
+    </div>
+  );
+};
+
+export default PronunciationPractice;
@@ -0,0 +1,199 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Loader2, RefreshCw, Scissors, Link2, Save } from 'lucide-react';
+import { SentenceAnalysis, WordAnalysis, WordCategory } from '../types';
+import { analyzeText } from '../services/analysisService';
+import { AnalysisValidationError } from '../services/analysisValidation';
+import { GeminiRequestError, isCancelled } from '../services/geminiRequest';
+import { splitWord, mergeWithNextWord, canMergeWithNext, wordsMatchOriginal, toSingleSentence } from '../services/analysisEditing';
+
+interface SentenceEditorProps {
+  sentence: SentenceAnalysis;
+  onSave: (sentence: SentenceAnalysis) => Promise<void>;
+  onCancel: () => void;
+}
+
+const CATEGORIES: { value: WordCategory; label: string }[] = [
+  { value: 'noun', label: 'Nomen' },
+  { value: 'verb', label: 'Verb' },
+  { value: 'adjective', label: 'Adjektiv' },
+  { value: 'function', label: 'Funktionswort' }
+];
+
+const inputClass = "w-full bg-[#FDFBF7] dark:bg-[#12100E] border border-[#EAE2D6] dark:border-[#2C2420] rounded-xl py-2 px-3 outline-none focus:ring-2 focus:ring-[#B26B4A]/20 text-sm text-[#2C2420] dark:text-[#FDFBF7]";
+const labelClass = "text-[9px] font-bold uppercase tracking-widest text-[#6B705C] dark:text-[#A5A58D] ml-1 mb-1 block";
+
+const SentenceEditor: React.FC<SentenceEditorProps> = ({ sentence, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<SentenceAnalysis>(sentence);
+  const [reanalyzing, setReanalyzing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateWord = (index: number, patch: Partial<WordAnalysis>) => {
+    setDraft(prev => ({
+      ...prev,
+      words: prev.words.map((w, idx) => {
+        if (idx !== index) return w;
+        const updated = { ...w, ...patch };
+        // Cleared fields are removed instead of saved as empty strings
+        (Object.keys(patch) as (keyof WordAnalysis)[]).forEach(key => {
+          if (key !== 'word' && !updated[key]) delete updated[key];
+        });
+        return updated;
+      })
+    }));
+  };
+
+  const handleReanalyze = async () => {
+    if (!draft.original.trim()) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setReanalyzing(true);
+    try {
+      const result = await analyzeText(draft.original.trim(), controller.signal);
+      setDraft(prev => toSingleSentence(result, prev));
+    } catch (err: any) {
+      if (isCancelled(err)) return;
+      console.error("Sentence re-analysis failed", err);
+      alert(err instanceof AnalysisValidationError || err instanceof GeminiRequestError ? err.message : "Der Satz konnte nicht neu analysiert werden.");
+    } finally {
+      setReanalyzing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft.original.trim()) return;
+    if (!wordsMatchOriginal(draft) && !window.confirm("Die Wörter passen nicht mehr zum Satz. Trotzdem speichern? Mit „Satz neu analysieren“ werden sie aus dem Text neu erstellt.")) {
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSave({ ...draft, original: draft.original.trim() });
+    } catch (e) {
+      console.error("Saving the correction failed", e);
+      alert("Die Korrektur konnte nicht gespeichert werden.");
+      setSaving(false);
+    }
+  };
+
+  const busy = reanalyzing || saving;
+
+  return (
+    <div className="fixed inset-0 bg-[#FDFBF7] dark:bg-[#12100E] flex flex-col z-[70] animate-fade-in">
+      <header className="px-6 py-4 flex justify-between items-center border-b border-[#EAE2D6] dark:border-[#2C2420]">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C]">Satz korrigieren</span>
+        <button onClick={onCancel} className="p-2 text-[#6B705C] hover:text-[#2C2420]"><X className="w-5 h-5" /></button>
+      </header>
+
+      <main className="flex-grow overflow-y-auto p-6 pb-32">
+        <div className="max-w-2xl mx-auto space-y-6">
+          <section className="space-y-3">
+            <div>
+              <label className={labelClass}>Originalsatz</label>
+              <textarea
+                value={draft.original}
+                onChange={e => setDraft(prev => ({ ...prev, original: e.target.value }))}
+                rows={3}
+                className={`${inputClass} font-serif text-base resize-none`}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Übersetzung</label>
+              <textarea
+                value={draft.translation}
+                onChange={e => setDraft(prev => ({ ...prev, translation: e.target.value }))}
+                rows={2}
+                className={`${inputClass} font-serif italic resize-none`}
+              />
+            </div>
+            <button
+              onClick={handleReanalyze}
+              disabled={busy}
+              className="w-full py-3 rounded-2xl font-bold uppercase text-[10px] tracking-widest border border-[#EAE2D6] dark:border-[#2C2420] text-[#6B705C] dark:text-[#A5A58D] flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {reanalyzing ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+              Satz neu analysieren
+            </button>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className={labelClass}>Wörter</h3>
+            {draft.words.map((word, idx) => word.type === 'punctuation' ? null : (
+              <div key={idx} className="bg-white dark:bg-[#1C1917] p-4 rounded-2xl border border-[#EAE2D6] dark:border-[#2C2420] space-y-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    value={word.word}
+                    onChange={e => updateWord(idx, { word: e.target.value })}
+                    className={`${inputClass} font-serif font-bold`}
+                  />
+                  <button
+                    onClick={() => setDraft(prev => ({ ...prev, words: splitWord(prev.words, idx) }))}
+                    disabled={!/\S\s+\S/.test(word.word)}
+                    title="An Leerzeichen teilen"
+                    className="p-2 rounded-xl border border-[#EAE2D6] dark:border-[#2C2420] text-[#6B705C] dark:text-[#A5A58D] disabled:opacity-30 shrink-0"
+                  >
+                    <Scissors className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setDraft(prev => ({ ...prev, words: mergeWithNextWord(prev.words, idx) }))}
+                    disabled={!canMergeWithNext(draft.words, idx)}
+                    title="Mit dem nächsten Wort verbinden"
+                    className="p-2 rounded-xl border border-[#EAE2D6] dark:border-[#2C2420] text-[#6B705C] dark:text-[#A5A58D] disabled:opacity-30 shrink-0"
+                  >
+                    <Link2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className={labelClass}>Wortart</label>
+                    <select
+                      value={word.category || ''}
+                      onChange={e => updateWord(idx, { category: (e.target.value || undefined) as WordCategory | undefined })}
+                      className={inputClass}
+                    >
+                      <option value="">–</option>
+                      {CATEGORIES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Übersetzung</label>
+                    <input value={word.translation || ''} onChange={e => updateWord(idx, { translation: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Grundform</label>
+                    <input value={word.baseForm || ''} onChange={e => updateWord(idx, { baseForm: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Zeitform</label>
+                    <input value={word.tense || ''} onChange={e => updateWord(idx, { tense: e.target.value })} className={inputClass} />
+                  </div>
+                  <div className="col-span-2">
+                    <label className={labelClass}>Person</label>
+                    <input value={word.person || ''} onChange={e => updateWord(idx, { person: e.target.value })} className={inputClass} />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </section>
+        </div>
+      </main>
+
+      <footer className="fixed bottom-0 left-0 right-0 p-6 bg-[#FDFBF7] dark:bg-[#12100E] border-t border-[#EAE2D6] dark:border-[#2C2420] flex gap-3">
+        <button onClick={onCancel} className="flex-1 py-4 rounded-2xl font-bold uppercase text-[10px] tracking-widest border border-[#EAE2D6] dark:border-[#2C2420] text-[#6B705C] dark:text-[#A5A58D]">
+          Abbrechen
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={busy || !draft.original.trim()}
+          className="flex-[2] py-4 bg-[#2C2420] dark:bg-[#D4A373] text-white dark:text-[#12100E] rounded-2xl font-bold uppercase text-[10px] tracking-widest shadow-lg flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Speichern
+        </button>
+      </footer>
+    </div>
+  );
+};
+
+export default SentenceEditor;
@@ -1,12 +1,56 @@
 
 import React, { useState, useEffect } from 'react';
-import { ShieldCheck, Key, Save, Trash2, CheckCircle2, AlertCircle } from 'lucide-react';
-import { getSessionApiKey, setSessionApiKey, clearSessionApiKey } from '../services/storageService';
+import { ShieldCheck, Key, Save, Trash2, CheckCircle2, AlertCircle, Cpu, Check, Volume2, Loader2, HardDrive, Bookmark } from 'lucide-react';
+import { AnalysisProviderSettings, SpeechSettings, VocabSavePolicy } from '../types';
+import { getSessionApiKey, setSessionApiKey, clearSessionApiKey, getAnalysisProviderSettings, setAnalysisProviderSettings, getSpeechSettings, setSpeechSettings, getVocabSavePolicy, setVocabSavePolicy } from '../services/storageService';
+import { FREQUENCY_LIST_SIZES } from '../services/frequencyList';
+import { ANALYSIS_PROVIDERS } from '../services/analysisService';
+import { SPEECH_VOICES, SPEECH_RATES, speak, isLocalSpeechSupported } from '../services/speechService';
+import { BookStorageUsage, OrphanReport, getStorageUsage, findOrphans, purgeOrphans } from '../services/maintenanceService';
+
+const GEMINI_MODELS = ['gemini-3-flash-preview', 'gemini-2.5-flash', 'gemini-2.5-pro'];
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const orphanCount = (report: OrphanReport) => report.localPageIds.length + report.localImageRefs.length + report.remotePages;
+
+interface ToggleRowProps {
+  label: string;
+  hint: string;
+  checked: boolean;
+  onToggle: () => void;
+}
+
+const ToggleRow: React.FC<ToggleRowProps> = ({ label, hint, checked, onToggle }) => (
+  <button
+    onClick={onToggle}
+    className="w-full flex items-center justify-between gap-4 p-4 rounded-2xl border border-[#EAE2D6] dark:border-[#2C2420] text-left"
+  >
+    <div>
+      <p className="text-sm font-bold text-[#2C2420] dark:text-[#FDFBF7]">{label}</p>
+      <p className="text-xs text-[#6B705C] dark:text-[#A5A58D] font-serif italic">{hint}</p>
+    </div>
+    <div className={`w-11 h-6 rounded-full p-0.5 transition-colors shrink-0 ${checked ? 'bg-[#B26B4A] dark:bg-[#D4A373]' : 'bg-[#EAE2D6] dark:bg-[#2C2420]'}`}>
+      <div className={`w-5 h-5 rounded-full bg-white shadow transition-transform ${checked ? 'translate-x-5' : ''}`} />
+    </div>
+  </button>
+);
 
 const SettingsView: React.FC = () => {
   const [apiKey, setApiKey] = useState('');
   const [hasKey, setHasKey] = useState(false);
   const [saved, setSaved] = useState(false);
+  const [providerSettings, setProviderSettings] = useState<AnalysisProviderSettings>(getAnalysisProviderSettings());
+  const [speechSettings, setSpeechSettingsState] = useState<SpeechSettings>(getSpeechSettings());
+  const [vocabPolicy, setVocabPolicyState] = useState<VocabSavePolicy>(getVocabSavePolicy());
+  const [previewing, setPreviewing] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<BookStorageUsage[] | null>(null);
+  const [orphans, setOrphans] = useState<OrphanReport | null>(null);
+  const [maintenanceBusy, setMaintenanceBusy] = useState(false);
 
   useEffect(() => {
     const key = getSessionApiKey();
@@ -31,6 +75,66 @@ const SettingsView: React.FC = () => {
     setHasKey(false);
   };
 
+  const updateProviderSettings = (patch: Partial<AnalysisProviderSettings>) => {
+    const next = { ...providerSettings, ...patch };
+    setProviderSettings(next);
+    setAnalysisProviderSettings(next);
+  };
+
+  const updateSpeechSettings = (patch: Partial<SpeechSettings>) => {
+    const next = { ...speechSettings, ...patch };
+    setSpeechSettingsState(next);
+    setSpeechSettings(next);
+  };
+
+  const updateVocabPolicy = (patch: Partial<VocabSavePolicy>) => {
+    const next = { ...vocabPolicy, ...patch };
+    setVocabPolicyState(next);
+    setVocabSavePolicy(next);
+  };
+
+  const handlePreview = async () => {
+    if (previewing) return;
+    setPreviewing(true);
+    try {
+      await speak('Hola, ¿qué tal? Vamos a leer un poco.');
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleCheckStorage = async () => {
+    setMaintenanceBusy(true);
+    try {
+      const [usage, report] = await Promise.all([getStorageUsage(), findOrphans()]);
+      setStorageUsage(usage);
+      setOrphans(report);
+    } catch (e) {
+      console.error("Storage check failed", e);
+      alert("Speicherprüfung fehlgeschlagen. Prüfe die Browser-Konsole für Details.");
+    } finally {
+      setMaintenanceBusy(false);
+    }
+  };
+
+  const handlePurgeOrphans = async () => {
+    if (!orphans) return;
+    const where = orphans.remotePages > 0 ? 'lokal und in der Cloud' : 'lokal';
+    if (!window.confirm(`${orphans.localPageIds.length + orphans.remotePages} verwaiste Seiten und ${orphans.localImageRefs.length} nicht zugeordnete Bilder ${where} endgültig löschen?`)) return;
+    setMaintenanceBusy(true);
+    try {
+      await purgeOrphans(orphans);
+      setOrphans(await findOrphans());
+    } catch (e) {
+      console.error("Cleanup failed", e);
+      alert("Aufräumen fehlgeschlagen. Prüfe die Browser-Konsole für Details.");
+    } finally {
+      setMaintenanceBusy(false);
+    }
+  };
+
   return (
     <div className="max-w-2xl mx-auto py-8 animate-fade-in">
       <div className="mb-10">
@@ -103,6 +207,274 @@ const SettingsView: React.FC = () => {
           </div>
         </section>
 
+        {/* Analysis Provider Section */}
+        <section className="bg-white dark:bg-[#1C1917] rounded-[2.5rem] border border-[#EAE2D6] dark:border-[#2C2420] p-8 shadow-sm">
+          <div className="flex items-center gap-4 mb-6">
+            <div className="w-12 h-12 bg-[#E9EDC9] dark:bg-[#2C2420] rounded-xl flex items-center justify-center text-[#6B705C] dark:text-[#A5A58D] shadow-sm">
+              <Cpu className="w-6 h-6" />
+            </div>
+            <div>
+                <h3 className="font-serif font-bold text-[#2C2420] dark:text-[#FDFBF7] text-xl">Analyse-Modell</h3>
+                <p className="text-xs text-[#6B705C] dark:text-[#A5A58D] font-serif italic">Wähle, wer deine Buchseiten analysiert.</p>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {ANALYSIS_PROVIDERS.map(provider => {
+                const isActive = providerSettings.provider === provider.id;
+                return (
+                    <button
+                        key={provider.id}
+                        onClick={() => updateProviderSettings({ provider: provider.id })}
+                        className={`w-full text-left p-4 rounded-2xl border flex items-center gap-4 transition-colors ${isActive ? 'border-[#B26B4A] dark:border-[#D4A373] bg-[#FEFAE0]/40 dark:bg-[#2C2420]/40' : 'border-[#EAE2D6] dark:border-[#2C2420] hover:border-[#B26B4A]/40'}`}
+                    >
+                        <div className={`w-5 h-5 rounded-full border flex items-center justify-center shrink-0 ${isActive ? 'bg-[#B26B4A] dark:bg-[#D4A373] border-transparent' : 'border-[#EAE2D6] dark:border-[#2C2420]'}`}>
+                            {isActive && <Check className="w-3 h-3 text-white dark:text-[#12100E]" />}
+                        </div>
+                        <div>
+                            <p className="text-sm font-bold text-[#2C2420] dark:text-[#FDFBF7]">{provider.label}</p>
+                            <p className="text-xs text-[#6B705C] dark:text-[#A5A58D] font-serif italic">{provider.description}</p>
+                        </div>
+                    </button>
+                );
+            })}
+
+            {providerSettings.provider === 'gemini' && (
+                <div className="pt-2">
+                    <label className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C] dark:text-[#A5A58D] ml-2 mb-1 block">Modell</label>
+                    <input
+                        list="gemini-models"
+                        value={providerSettings.geminiModel}
+                        onChange={(e) => updateProviderSettings({ geminiModel: e.target.value.trim() })}
+                        className="w-full bg-[#FDFBF7] dark:bg-[#12100E] border border-[#EAE2D6] dark:border-[#2C2420] rounded-2xl py-4 px-4 outline-none focus:ring-2 focus:ring-[#B26B4A]/20 transition-all text-sm font-mono"
+                    />
+                    <datalist id="gemini-models">
+                        {GEMINI_MODELS.map(m => <option key={m} value={m} />)}
+                    </datalist>
+                </div>
+            )}
+
+            {providerSettings.provider === 'openai-compatible' && (
+                <div className="pt-2 space-y-3">
+                    <div>
+                        <label className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C] dark:text-[#A5A58D] ml-2 mb-1 block">Basis-URL</label>
+                        <input
+                            value={providerSettings.endpointUrl || ''}
+                            onChange={(e) => updateProviderSettings({ endpointUrl: e.target.value.trim() })}
+                            placeholder="http://localhost:11434/v1"
+                            className="w-full bg-[#FDFBF7] dark:bg-[#12100E] border border-[#EAE2D6] dark:border-[#2C2420] rounded-2xl py-4 px-4 outline-none focus:ring-2 focus:ring-[#B26B4A]/20 transition-all text-sm font-mono"
+                        />
+                    </div>
+                    <div>
+                        <label className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C] dark:text-[#A5A58D] ml-2 mb-1 block">Modell</label>
+                        <input
+                            value={providerSettings.endpointModel || ''}
+                            onChange={(e) => updateProviderSettings({ endpointModel: e.target.value.trim() })}
+                            placeholder="z.B. llava oder qwen2.5-vl"
+                            className="w-full bg-[#FDFBF7] dark:bg-[#12100E] border border-[#EAE2D6] dark:border-[#2C2420] rounded-2xl py-4 px-4 outline-none focus:ring-2 focus:ring-[#B26B4A]/20 transition-all text-sm font-mono"
+                        />
+                    </div>
+                    <div>
+                        <label className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C] dark:text-[#A5A58D] ml-2 mb-1 block">API Key (Optional)</label>
+                        <input
+                            type="password"
+                            value={providerSettings.endpointApiKey || ''}
+                            onChange={(e) => updateProviderSettings({ endpointApiKey: e.target.value.trim() })}
+                            className="w-full bg-[#FDFBF7] dark:bg-[#12100E] border border-[#EAE2D6] dark:border-[#2C2420] rounded-2xl py-4 px-4 outline-none focus:ring-2 focus:ring-[#B26B4A]/20 transition-all text-sm font-mono"
+                        />
+                    </div>
+                </div>
+            )}
+          </div>
+        </section>
+
+        {/* Speech Section */}
+        <section className="bg-white dark:bg-[#1C1917] rounded-[2.5rem] border border-[#EAE2D6] dark:border-[#2C2420] p-8 shadow-sm">
+          <div className="flex items-center gap-4 mb-6">
+            <div className="w-12 h-12 bg-[#FEFAE0] dark:bg-[#2C2420] rounded-xl flex items-center justify-center text-[#B26B4A] dark:text-[#D4A373] shadow-sm">
+              <Volume2 className="w-6 h-6" />
+            </div>
+            <div>
+                <h3 className="font-serif font-bold text-[#2C2420] dark:text-[#FDFBF7] text-xl">Aussprache</h3>
+                <p className="text-xs text-[#6B705C] dark:text-[#A5A58D] font-serif italic">Stimme und Tempo der Vorlesefunktion.</p>
+            </div>
+          </div>
+
+          <div className="space-y-5">
+            {isLocalSpeechSupported() && (
+                <button
+                    onClick={() => updateSpeechSettings({ preferLocal: !speechSettings.preferLocal })}
+                    className="w-full flex items-center justify-between gap-4 p-4 rounded-2xl border border-[#EAE2D6] dark:border-[#2C2420] text-left"
+                >
+                    <div>
+                        <p className="text-sm font-bold text-[#2C2420] dark:text-[#FDFBF7]">Stimme des Geräts bevorzugen</p>
+                        <p className="text-xs text-[#6B705C] dark:text-[#A5A58D] font-serif italic">Funktioniert offline und ohne API-Kontingent. Ohne Key wird sie automatisch verwendet.</p>
+                    </div>
+                    <div className={`w-11 h-6 rounded-full p-0.5 transition-colors shrink-0 ${speechSettings.preferLocal ? 'bg-[#B26B4A] dark:bg-[#D4A373]' : 'bg-[#EAE2D6] dark:bg-[#2C2420]'}`}>
+                        <div className={`w-5 h-5 rounded-full bg-white shadow transition-transform ${speechSettings.preferLocal ? 'translate-x-5' : ''}`} />
+                    </div>
+                </button>
+            )}
+
+            <div className={speechSettings.preferLocal ? 'opacity-40 pointer-events-none' : ''}>
+                <label className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C] dark:text-[#A5A58D] ml-2 mb-2 block">Stimme</label>
+                <div className="grid grid-cols-2 gap-2">
+                    {SPEECH_VOICES.map(voice => (
+                        <button
+                            key={voice.id}
+                            onClick={() => updateSpeechSettings({ voice: voice.id })}
+                            className={`p-3 rounded-xl border text-xs font-bold transition-colors ${speechSettings.voice === voice.id ? 'border-[#B26B4A] dark:border-[#D4A373] bg-[#FEFAE0]/40 dark:bg-[#2C2420]/40 text-[#2C2420] dark:text-[#FDFBF7]' : 'border-[#EAE2D6] dark:border-[#2C2420] text-[#6B705C] dark:text-[#A5A58D]'}`}
+                        >
+                            {voice.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div>
+                <label className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C] dark:text-[#A5A58D] ml-2 mb-2 block">Tempo</label>
+                <div className="flex gap-2">
+                    {SPEECH_RATES.map(rate => (
+                        <button
+                            key={rate}
+                            onClick={() => updateSpeechSettings({ rate })}
+                            className={`flex-1 py-3 rounded-xl border text-xs font-bold transition-colors ${speechSettings.rate === rate ? 'bg-[#2C2420] dark:bg-[#D4A373] text-white dark:text-[#12100E] border-transparent' : 'border-[#EAE2D6] dark:border-[#2C2420] text-[#6B705C] dark:text-[#A5A58D]'}`}
+                        >
+                            {rate}x
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <button
+                onClick={handlePreview}
+                className="w-full py-4 rounded-2xl font-bold uppercase text-[10px] tracking-widest border border-[#EAE2D6] dark:border-[#2C2420] text-[#6B705C] dark:text-[#A5A58D] flex items-center justify-center gap-2"
+            >
+                {previewing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Volume2 className="w-4 h-4" />}
+                Probe hören
+            </button>
+          </div>
+        </section>
+
+        {/* Vocab Saving Section */}
+        <section className="bg-white dark:bg-[#1C1917] rounded-[2.5rem] border border-[#EAE2D6] dark:border-[#2C2420] p-8 shadow-sm">
+          <div className="flex items-center gap-4 mb-6">
+            <div className="w-12 h-12 bg-[#FEFAE0] dark:bg-[#2C2420] rounded-xl flex items-center justify-center text-[#B26B4A] dark:text-[#D4A373] shadow-sm">
+              <Bookmark className="w-6 h-6" />
+            </div>
+            <div>
+                <h3 className="font-serif font-bold text-[#2C2420] dark:text-[#FDFBF7] text-xl">Vokabeln speichern</h3>
+                <p className="text-xs text-[#6B705C] dark:text-[#A5A58D] font-serif italic">Welche Wörter einer Seite in deine Sammlung kommen. Einzelne Wörter merkst du dir mit dem Lesezeichen.</p>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <ToggleRow
+                label="Automatisch speichern"
+                hint="Beim Speichern einer Seite kommen ihre Wörter in die Sammlung."
+                checked={vocabPolicy.autoSave}
+                onToggle={() => updateVocabPolicy({ autoSave: !vocabPolicy.autoSave })}
+            />
+
+            <div className={`space-y-3 ${vocabPolicy.autoSave ? '' : 'opacity-40 pointer-events-none'}`}>
+                <ToggleRow
+                    label="Funktionswörter auslassen"
+                    hint="Artikel, Präpositionen, Pronomen und Konjunktionen."
+                    checked={vocabPolicy.skipFunctionWords}
+                    onToggle={() => updateVocabPolicy({ skipFunctionWords: !vocabPolicy.skipFunctionWords })}
+                />
+                <ToggleRow
+                    label="Gelernte Wörter auslassen"
+                    hint="Als gemeistert markierte Vokabeln werden nicht erneut ergänzt."
+                    checked={vocabPolicy.skipKnown}
+                    onToggle={() => updateVocabPolicy({ skipKnown: !vocabPolicy.skipKnown })}
+                />
+                <ToggleRow
+                    label="Häufige Wörter auslassen"
+                    hint="Die häufigsten Wörter des Spanischen kommen nur per Lesezeichen in die Sammlung."
+                    checked={vocabPolicy.skipFrequent}
+                    onToggle={() => updateVocabPolicy({ skipFrequent: !vocabPolicy.skipFrequent })}
+                />
+                <div className={vocabPolicy.skipFrequent ? '' : 'opacity-40 pointer-events-none'}>
+                    <label className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C] dark:text-[#A5A58D] ml-2 mb-2 block">Häufigste Wörter</label>
+                    <div className="flex gap-2">
+                        {FREQUENCY_LIST_SIZES.map(size => (
+                            <button
+                                key={size}
+                                onClick={() => updateVocabPolicy({ frequentTopN: size })}
+                                className={`flex-1 py-3 rounded-xl border text-xs font-bold transition-colors ${vocabPolicy.frequentTopN === size ? 'bg-[#2C2420] dark:bg-[#D4A373] text-white dark:text-[#12100E] border-transparent' : 'border-[#EAE2D6] dark:border-[#2C2420] text-[#6B705C] dark:text-[#A5A58D]'}`}
+                            >
+                                Top {size}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+          </div>
+        </section>
+
+        {/* Storage Section */}
+        <section className="bg-white dark:bg-[#1C1917] rounded-[2.5rem] border border-[#EAE2D6] dark:border-[#2C2420] p-8 shadow-sm">
+          <div className="flex items-center gap-4 mb-6">
+            <div className="w-12 h-12 bg-[#FEFAE0] dark:bg-[#2C2420] rounded-xl flex items-center justify-center text-[#B26B4A] dark:text-[#D4A373] shadow-sm">
+              <HardDrive className="w-6 h-6" />
+            </div>
+            <div>
+                <h3 className="font-serif font-bold text-[#2C2420] dark:text-[#FDFBF7] text-xl">Speicher</h3>
+                <p className="text-xs text-[#6B705C] dark:text-[#A5A58D] font-serif italic">Belegung pro Buch und Reste gelöschter Bücher.</p>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {storageUsage && (
+                <div className="space-y-2">
+                    {storageUsage.length === 0 && (
+                        <p className="text-sm text-[#6B705C] dark:text-[#A5A58D] font-serif italic">Noch keine Bücher gespeichert.</p>
+                    )}
+                    {storageUsage.map(book => (
+                        <div key={book.bookId} className="flex items-center justify-between gap-4 p-3 rounded-xl border border-[#EAE2D6] dark:border-[#2C2420]">
+                            <div className="min-w-0">
+                                <p className="text-sm font-bold text-[#2C2420] dark:text-[#FDFBF7] truncate">{book.title}</p>
+                                <p className="text-[10px] text-[#6B705C] dark:text-[#A5A58D] font-serif italic">{book.pages} Seiten · Bilder {formatBytes(book.imageBytes)}</p>
+                            </div>
+                            <span className="text-xs font-mono text-[#6B705C] dark:text-[#A5A58D] shrink-0">{formatBytes(book.dataBytes + book.imageBytes)}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {orphans && (
+                <div className={`p-4 rounded-2xl text-xs font-serif italic ${orphanCount(orphans) > 0 ? 'bg-[#FEFAE0]/50 dark:bg-[#2C2420]/50 text-[#2C2420] dark:text-[#FDFBF7]' : 'text-[#6B705C] dark:text-[#A5A58D]'}`}>
+                    {orphanCount(orphans) > 0
+                        ? `Gefunden: ${orphans.localPageIds.length + orphans.remotePages} verwaiste Seiten und ${orphans.localImageRefs.length} nicht zugeordnete Bilder.`
+                        : 'Keine verwaisten Daten gefunden.'}
+                    {!orphans.remoteChecked && ' Nur lokal geprüft – die Cloud wird nur angemeldet und online durchsucht.'}
+                </div>
+            )}
+
+            <div className="flex gap-3">
+                <button
+                    onClick={handleCheckStorage}
+                    disabled={maintenanceBusy}
+                    className="flex-1 py-4 rounded-2xl font-bold uppercase text-[10px] tracking-widest border border-[#EAE2D6] dark:border-[#2C2420] text-[#6B705C] dark:text-[#A5A58D] flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                    {maintenanceBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <HardDrive className="w-4 h-4" />}
+                    Speicher prüfen
+                </button>
+                {orphans && orphanCount(orphans) > 0 && (
+                    <button
+                        onClick={handlePurgeOrphans}
+                        disabled={maintenanceBusy}
+                        className="flex-1 bg-[#2C2420] dark:bg-[#D4A373] text-white dark:text-[#12100E] py-4 rounded-2xl font-bold uppercase text-[10px] tracking-widest shadow-lg flex items-center justify-center gap-2 disabled:opacity-50"
+                    >
+                        <Trash2 className="w-4 h-4" />
+                        Aufräumen
+                    </button>
+                )}
+            </div>
+          </div>
+        </section>
+
         {/* Info Section */}
         <section className="bg-[#FEFAE0]/30 dark:bg-[#1C1917]/50 rounded-[2.5rem] border border-[#FAEDCD] dark:border-[#2C2420] p-8">
           <div className="flex items-center gap-4 mb-4">
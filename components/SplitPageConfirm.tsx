@@ -0,0 +1,69 @@
+import React, { useState, useRef } from 'react';
+import { Columns2, Square } from 'lucide-react';
+import { PageSplit } from '../services/documentScanner';
+
+interface SplitPageConfirmProps {
+  image: string;
+  split: PageSplit;
+  onSplit: (position: number) => void;
+  onKeep: () => void;
+}
+
+// Shows the detected gutter so the user can move it and decide whether to split the photo.
+const SplitPageConfirm: React.FC<SplitPageConfirmProps> = ({ image, split, onSplit, onKeep }) => {
+  const [position, setPosition] = useState(split.position);
+  const [dragging, setDragging] = useState(false);
+  const areaRef = useRef<HTMLDivElement>(null);
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragging || !areaRef.current) return;
+    const rect = areaRef.current.getBoundingClientRect();
+    setPosition(Math.min(0.9, Math.max(0.1, (e.clientX - rect.left) / rect.width)));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-[#12100E] z-[60] flex flex-col animate-fade-in">
+      <header className="px-6 py-4 text-center">
+        <h2 className="text-lg font-serif font-bold text-[#FDFBF7]">
+          {split.kind === 'spread' ? 'Doppelseite erkannt' : 'Zwei Spalten erkannt'}
+        </h2>
+        <p className="text-xs text-[#A5A58D] font-serif italic">
+          Verschiebe die Linie, falls sie nicht genau in der Mitte liegt. Beide Teile werden als eigene Seiten gespeichert.
+        </p>
+      </header>
+
+      <main className="flex-grow flex items-center justify-center p-4 overflow-hidden">
+        <div
+          ref={areaRef}
+          className="relative inline-block touch-none select-none"
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDragging(false)}
+          onPointerLeave={() => setDragging(false)}
+        >
+          <img src={`data:image/jpeg;base64,${image}`} alt="Aufnahme" className="block max-w-full max-h-[65vh] rounded-2xl" draggable={false} />
+          <div
+            onPointerDown={(e) => {
+              e.preventDefault();
+              setDragging(true);
+            }}
+            className="absolute top-0 bottom-0 w-8 -ml-4 flex justify-center cursor-ew-resize"
+            style={{ left: `${position * 100}%` }}
+          >
+            <div className={`w-1 h-full rounded-full ${dragging ? 'bg-[#FDFBF7]' : 'bg-[#D4A373]'}`} />
+          </div>
+        </div>
+      </main>
+
+      <footer className="p-6 flex gap-3 max-w-md w-full mx-auto">
+        <button onClick={onKeep} className="flex-1 py-4 rounded-2xl border border-[#2C2420] text-[#A5A58D] font-bold uppercase text-[10px] tracking-widest flex items-center justify-center gap-2">
+          <Square className="w-4 h-4" /> Eine Seite
+        </button>
+        <button onClick={() => onSplit(position)} className="flex-1 py-4 bg-[#D4A373] text-[#12100E] rounded-2xl font-bold uppercase text-[10px] tracking-widest shadow-xl flex items-center justify-center gap-2">
+          <Columns2 className="w-4 h-4" /> Teilen
+        </button>
+      </footer>
+    </div>
+  );
+};
+
+export default SplitPageConfirm;
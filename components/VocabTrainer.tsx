@@ -1,13 +1,39 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { VocabItem, WordCategory, MasteryLevel } from '../types';
-import { getVocab, removeVocabBatch, updateVocabStatus, importVocabFromJson } from '../services/storageService';
-import { Trash2, CheckCircle, GraduationCap, RefreshCw, Layers, Play, Download, Upload, Loader2, Quote, ArrowLeft, ChevronRight, Volume2, X, Plus, Sparkles, Filter, Check, Square, CheckSquare, Info, MessageSquare } from 'lucide-react';
-import { generateSpeech, generateExampleSentence } from '../services/geminiService';
+import { VocabItem, WordCategory, MasteryLevel, Book, BookPage, VocabSource } from '../types';
+import { getVocab, removeVocabBatch, updateVocabStatus, importVocabFromJson, getSentenceTranslations, getBooks, getPage } from '../services/storageService';
+import { Trash2, CheckCircle, GraduationCap, RefreshCw, Layers, Play, Download, Upload, Loader2, Quote, ArrowLeft, ChevronRight, Volume2, X, Plus, Sparkles, Filter, Check, Square, CheckSquare, Info, MessageSquare, Mic, BookOpen } from 'lucide-react';
+import { generateExampleSentence } from '../services/geminiService';
+import { GeminiRequestError } from '../services/geminiRequest';
+import { speak, stopSpeaking } from '../services/speechService';
+import { isPronunciationSupported } from '../services/pronunciationService';
+import { scheduleReview, isDue, buildDueQueue, formatInterval, ReviewRating } from '../services/srsScheduler';
+import { getForms, getSources } from '../services/vocabLemmas';
+import { buildConjugationCards, ConjugationCard } from '../services/conjugation';
+import { matchAnswer, AnswerMatch } from '../services/answerMatching';
+import ConjugationDrill from './ConjugationDrill';
+import { buildClozeCard, ClozeCard } from '../services/clozeBuilder';
+import ClozeDrill from './ClozeDrill';
+import DictationTrainer from './DictationTrainer';
+import PronunciationPractice from './PronunciationPractice';
+
+const shuffle = <T,>(items: T[]): T[] => [...items].sort(() => Math.random() - 0.5);
+
+// In form drills a card shows one encountered form; the rating still applies to the lemma
+const toFormCard = (item: VocabItem): VocabItem => {
+  const forms = getForms(item);
+  const form = forms[Math.floor(Math.random() * forms.length)];
+  return { ...item, word: form.word, translation: form.translation, tense: form.tense, person: form.person, contextSentence: form.contextSentence, contextTranslation: form.contextTranslation, baseForm: item.word };
+};
+
+interface VocabTrainerProps {
+  onOpenSource?: (page: BookPage, sentenceIndex: number) => void;
+}
 
-const VocabTrainer: React.FC = () => {
+const VocabTrainer: React.FC<VocabTrainerProps> = ({ onOpenSource }) => {
   const [vocabList, setVocabList] = useState<VocabItem[]>([]);
+  const [books, setBooks] = useState<Book[]>([]);
   const [loading, setLoading] = useState(true);
-  const [mode, setMode] = useState<'list' | 'setup' | 'train' | 'detail'>('list');
+  const [mode, setMode] = useState<'list' | 'setup' | 'train' | 'detail' | 'conjugate' | 'cloze' | 'dictation'>('list');
   
   // Selection logic
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
@@ -20,19 +46,34 @@ const VocabTrainer: React.FC = () => {
 
   // Session Setup State
   const [selectedCategories, setSelectedCategories] = useState<Set<WordCategory | 'other'>>(new Set(['noun', 'verb', 'adjective']));
-  const [selectedStatus, setSelectedStatus] = useState<Set<MasteryLevel>>(new Set(['new', 'again', 'medium']));
-  const [verbsOnlyBase, setVerbsOnlyBase] = useState(false);
+  const [selectedStatus, setSelectedStatus] = useState<Set<MasteryLevel>>(new Set(['new', 'again', 'medium', 'good', 'mastered']));
+  const [drillTarget, setDrillTarget] = useState<'lemma' | 'forms'>('lemma');
+  const [trainingMode, setTrainingMode] = useState<'cards' | 'conjugation' | 'cloze' | 'dictation'>('cards');
+  const [useConjugationTable, setUseConjugationTable] = useState(false);
+  const [conjugationCards, setConjugationCards] = useState<ConjugationCard[]>([]);
+  const [clozeCards, setClozeCards] = useState<ClozeCard[]>([]);
+  // How a card is answered: self-rated flip, typed in either direction, or multiple choice
+  const [answerMode, setAnswerMode] = useState<'reveal' | 'type-de' | 'type-es' | 'choice'>('reveal');
+  const [dueOnly, setDueOnly] = useState(true);
+  // Empty means vocab from all books and from scans outside a book
+  const [selectedBookIds, setSelectedBookIds] = useState<Set<string>>(new Set());
 
   // Training State
   const [sessionQueue, setSessionQueue] = useState<VocabItem[]>([]);
   const [currentCardIndex, setCurrentCardIndex] = useState(0);
   const [showAnswer, setShowAnswer] = useState(false);
   const [playingAudio, setPlayingAudio] = useState<string | null>(null);
+  const [practiceTarget, setPracticeTarget] = useState<{ text: string, translation?: string } | null>(null);
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [answerFeedback, setAnswerFeedback] = useState<AnswerMatch | null>(null);
+  const [autoRating, setAutoRating] = useState<ReviewRating | null>(null);
+  const [chosenOption, setChosenOption] = useState<string | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     loadVocab();
+    getBooks().then(setBooks).catch(e => console.error("Failed to load books", e));
   }, []);
 
   const loadVocab = async () => {
@@ -68,40 +109,126 @@ const VocabTrainer: React.FC = () => {
   const handleGenerateAiSentence = async () => {
     if (!detailItem) return;
     setLoadingAi(true);
-    const res = await generateExampleSentence(detailItem.word, detailItem.category || 'Vokabel');
-    setAiSentence(res);
-    setLoadingAi(false);
+    try {
+      setAiSentence(await generateExampleSentence(detailItem.word, detailItem.category || 'Vokabel'));
+    } catch (e) {
+      console.error(e);
+      alert(e instanceof GeminiRequestError ? e.message : "Der Beispielsatz konnte nicht erstellt werden.");
+    } finally {
+      setLoadingAi(false);
+    }
+  };
+
+  const handleOpenSource = async (source: VocabSource) => {
+    const page = await getPage(source.pageId);
+    if (!page) {
+      alert("Diese Seite wurde inzwischen gelöscht.");
+      return;
+    }
+    onOpenSource?.(page, source.sentenceIndex);
+  };
+
+  const bookTitle = (bookId: string) => books.find(b => b.id === bookId)?.title || 'Gelöschtes Buch';
+
+  const matchesBooks = (item: VocabItem) => selectedBookIds.size === 0 || getSources(item).some(s => selectedBookIds.has(s.bookId));
+
+  const startConjugation = () => {
+    const verbs = vocabList.filter(item => item.category === 'verb' && selectedStatus.has(item.masteryLevel || 'new') && matchesBooks(item));
+    const cards = buildConjugationCards(verbs, useConjugationTable);
+    if (cards.length === 0) {
+      alert("Keine Verbformen mit Zeitform und Person gefunden. Lies weitere Seiten oder ergänze regelmäßige Formen.");
+      return;
+    }
+    setConjugationCards(cards);
+    setMode('conjugate');
   };
 
-  const startSession = () => {
+  const startSession = async () => {
+    if (trainingMode === 'dictation') {
+      setMode('dictation');
+      return;
+    }
+    if (trainingMode === 'conjugation') {
+      startConjugation();
+      return;
+    }
     let filtered = vocabList.filter(item => {
         const cat = (item.category as any) || 'other';
         const matchesCat = selectedCategories.has(cat);
         const matchesStatus = selectedStatus.has(item.masteryLevel || 'new');
         
         if (!matchesCat || !matchesStatus) return false;
-        if (cat === 'verb' && verbsOnlyBase && item.baseForm && item.baseForm !== item.word) return false;
+        if (!matchesBooks(item)) return false;
+        if (dueOnly && !isDue(item)) return false;
         
         return true;
     });
 
     if (filtered.length === 0) {
-      alert("Keine Vokabeln für diese Auswahl gefunden!");
+      alert(dueOnly ? "Für diese Auswahl ist heute nichts mehr fällig!" : "Keine Vokabeln für diese Auswahl gefunden!");
+      return;
+    }
+    const queue = dueOnly ? buildDueQueue(filtered) : [...filtered].sort(() => Math.random() - 0.5);
+
+    if (trainingMode === 'cloze') {
+      const translations = await getSentenceTranslations();
+      const cards = queue.flatMap(item => buildClozeCard(item, translations) || []);
+      if (cards.length === 0) {
+        alert("Für diese Auswahl gibt es keine Vokabeln mit Fundstelle.");
+        return;
+      }
+      setClozeCards(cards);
+      setMode('cloze');
       return;
     }
-    setSessionQueue([...filtered].sort(() => Math.random() - 0.5));
+    setSessionQueue(drillTarget === 'forms' ? queue.map(toFormCard) : queue);
     setCurrentCardIndex(0);
-    setShowAnswer(false);
+    resetAnswer();
     setMode('train');
   };
 
-  const handleRating = async (level: MasteryLevel) => {
+  const resetAnswer = () => {
+    setShowAnswer(false);
+    setTypedAnswer('');
+    setAnswerFeedback(null);
+    setAutoRating(null);
+    setChosenOption(null);
+  };
+
+  // Typed and multiple-choice answers rate the card themselves
+  const applyAnswerResult = (match: AnswerMatch) => {
+    setAnswerFeedback(match);
+    setAutoRating(match === 'exact' ? 'good' : match === 'close' ? 'medium' : 'again');
+    setShowAnswer(true);
+  };
+
+  const handleCheckTyped = (e: React.FormEvent) => {
+    e.preventDefault();
+    const card = sessionQueue[currentCardIndex];
+    if (!typedAnswer.trim() || !card) return;
+    applyAnswerResult(matchAnswer(typedAnswer, answerMode === 'type-es' ? card.word : card.translation));
+  };
+
+  const handleChooseOption = (option: string) => {
+    const card = sessionQueue[currentCardIndex];
+    setChosenOption(option);
+    applyAnswerResult(option === card.translation ? 'exact' : 'wrong');
+  };
+
+  const handleRating = async (level: ReviewRating) => {
     const currentItem = sessionQueue[currentCardIndex];
-    await updateVocabStatus(currentItem.id, level);
+    const review = scheduleReview(currentItem, level);
+    await updateVocabStatus(currentItem.id, level, review);
+
+    // Forgotten cards come back at the end of this session
+    const reviewedItem = { ...currentItem, ...review, masteryLevel: level };
+    const queue = sessionQueue.map((item, idx) => idx === currentCardIndex ? reviewedItem : item);
+    if (level === 'again') queue.push(reviewedItem);
+    setSessionQueue(queue);
 
-    if (currentCardIndex < sessionQueue.length - 1) {
+    if (currentCardIndex < queue.length - 1) {
       setCurrentCardIndex(prev => prev + 1);
-      setShowAnswer(false);
+      resetAnswer();
     } else {
       alert("Sitzung beendet!");
       setMode('list');
@@ -110,19 +237,52 @@ const VocabTrainer: React.FC = () => {
   };
 
   const playAudio = async (text: string, id: string) => {
-    if (playingAudio) return;
+    if (playingAudio) {
+      stopSpeaking();
+      return;
+    }
     setPlayingAudio(id);
     try {
-      await generateSpeech(text);
+      await speak(text);
+    } catch (e) {
+      console.error(e);
+      alert("Vorlesen fehlgeschlagen.");
     } finally {
       setPlayingAudio(null);
     }
   };
 
+  const dueCount = useMemo(() => vocabList.filter(item => isDue(item)).length, [vocabList]);
+
+  // Distractors come from the same category, so the right answer cannot be guessed from the word type
+  const choiceOptions = useMemo<string[]>(() => {
+    const card = sessionQueue[currentCardIndex];
+    if (mode !== 'train' || answerMode !== 'choice' || !card) return [];
+    const seen = new Set([card.translation.trim().toLowerCase()]);
+    const candidates = [
+        ...shuffle<VocabItem>(vocabList.filter(v => v.category === card.category)),
+        ...shuffle<VocabItem>(vocabList.filter(v => v.category !== card.category))
+    ];
+    const distractors: string[] = [];
+    for (const v of candidates) {
+        const key = v.translation.trim().toLowerCase();
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        distractors.push(v.translation);
+        if (distractors.length === 3) break;
+    }
+    return shuffle([card.translation, ...distractors]);
+  }, [mode, answerMode, currentCardIndex, sessionQueue, vocabList]);
+
   // --- RENDERING SUB-VIEWS ---
 
   if (loading) return <div className="flex justify-center py-20"><Loader2 className="animate-spin text-[#B26B4A]" /></div>;
 
+  // Full-screen overlay; the underlying card or detail view keeps its state
+  if (practiceTarget) {
+    return <PronunciationPractice text={practiceTarget.text} translation={practiceTarget.translation} onClose={() => setPracticeTarget(null)} />;
+  }
+
   if (mode === 'detail' && detailItem) {
     return (
       <div className="animate-fade-in pb-32">
@@ -137,6 +297,15 @@ const VocabTrainer: React.FC = () => {
             >
                 {playingAudio === 'detail' ? <Loader2 className="w-5 h-5 animate-spin" /> : <Volume2 className="w-5 h-5" />}
             </button>
+            {isPronunciationSupported() && (
+                <button
+                    onClick={() => setPracticeTarget({ text: detailItem.word, translation: detailItem.translation })}
+                    title="Nachsprechen"
+                    className="absolute top-6 right-20 w-12 h-12 bg-[#FDFBF7]/10 rounded-full flex items-center justify-center active:scale-95 transition-all"
+                >
+                    <Mic className="w-5 h-5" />
+                </button>
+            )}
             <span className="text-[10px] font-bold uppercase tracking-widest text-[#B26B4A] mb-2 block">{detailItem.category || 'Vokabel'}</span>
             <h2 className="text-4xl font-serif font-bold mb-2">{detailItem.word}</h2>
             <p className="text-2xl font-serif italic text-[#FDFBF7]/80">{detailItem.translation}</p>
@@ -163,10 +332,85 @@ const VocabTrainer: React.FC = () => {
                 </div>
             )}
 
+            {getForms(detailItem).length > 1 && (
+                <div className="bg-white dark:bg-[#1C1917] p-6 rounded-3xl border border-[#EAE2D6] dark:border-[#2C2420]">
+                    <h4 className="text-[9px] font-bold uppercase tracking-widest text-[#6B705C] mb-3">Gelesene Formen</h4>
+                    <div className="space-y-3">
+                        {getForms(detailItem).map(form => (
+                            <div key={form.word}>
+                                <div className="flex flex-wrap items-baseline gap-2">
+                                    <span className="font-serif font-bold text-[#2C2420] dark:text-[#FDFBF7]">{form.word}</span>
+                                    <span className="text-xs font-serif italic text-[#6B705C] dark:text-[#A5A58D]">{form.translation}</span>
+                                    {(form.tense || form.person) && (
+                                        <span className="text-[8px] uppercase font-bold text-[#B26B4A]">{[form.tense, form.person].filter(Boolean).join(' · ')}</span>
+                                    )}
+                                    {form.source && onOpenSource && (
+                                        <button onClick={() => handleOpenSource(form.source!)} title="Fundstelle öffnen" className="text-[#A5A58D] hover:text-[#B26B4A]">
+                                            <BookOpen className="w-3 h-3" />
+                                        </button>
+                                    )}
+                                </div>
+                                {form.contextSentence && <p className="text-xs font-serif italic text-[#A5A58D] mt-1">{form.contextSentence}</p>}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {detailItem.dueAt && (
+                <div className="flex flex-wrap gap-2">
+                    <div className="bg-white dark:bg-[#1C1917] px-4 py-2 rounded-xl border border-[#EAE2D6] dark:border-[#2C2420]">
+                        <span className="text-[8px] uppercase font-bold text-[#6B705C] block">Nächste Wiederholung</span>
+                        <span className="text-xs font-serif text-[#2C2420] dark:text-[#FDFBF7]">{new Date(detailItem.dueAt).toLocaleDateString()}</span>
+                    </div>
+                    <div className="bg-white dark:bg-[#1C1917] px-4 py-2 rounded-xl border border-[#EAE2D6] dark:border-[#2C2420]">
+                        <span className="text-[8px] uppercase font-bold text-[#6B705C] block">Wiederholungen</span>
+                        <span className="text-xs font-serif text-[#2C2420] dark:text-[#FDFBF7]">{detailItem.reviewHistory?.length || 0} (Leichtigkeit {detailItem.ease?.toFixed(2)})</span>
+                    </div>
+                </div>
+            )}
+
             {detailItem.contextSentence && (
                 <div className="bg-white dark:bg-[#1C1917] p-6 rounded-3xl border border-[#EAE2D6] dark:border-[#2C2420]">
                     <h4 className="text-[9px] font-bold uppercase tracking-widest text-[#6B705C] mb-3 flex items-center gap-2"><Quote className="w-3 h-3" /> Fundstelle</h4>
                     <p className="font-serif italic text-[#6B705C] dark:text-[#A5A58D]">{detailItem.contextSentence}</p>
+                    <div className="mt-4 flex flex-wrap gap-4">
+                        {detailItem.source && onOpenSource && (
+                            <button
+                                onClick={() => handleOpenSource(detailItem.source!)}
+                                className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-[#B26B4A]"
+                            >
+                                <BookOpen className="w-3 h-3" /> Fundstelle öffnen
+                            </button>
+                        )}
+                        {isPronunciationSupported() && (
+                            <button
+                                onClick={() => setPracticeTarget({ text: detailItem.contextSentence!, translation: detailItem.contextTranslation })}
+                                className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-[#B26B4A]"
+                            >
+                                <Mic className="w-3 h-3" /> Satz nachsprechen
+                            </button>
+                        )}
+                    </div>
+                    {detailItem.source && <p className="text-[10px] text-[#A5A58D] mt-3">{bookTitle(detailItem.source.bookId)} · Satz {detailItem.source.sentenceIndex + 1}</p>}
+                </div>
+            )}
+
+            {(detailItem.occurrences?.length || 0) > 0 && onOpenSource && (
+                <div className="bg-white dark:bg-[#1C1917] p-6 rounded-3xl border border-[#EAE2D6] dark:border-[#2C2420]">
+                    <h4 className="text-[9px] font-bold uppercase tracking-widest text-[#6B705C] mb-3">Weitere Fundstellen</h4>
+                    <div className="space-y-2">
+                        {detailItem.occurrences!.map(source => (
+                            <button
+                                key={`${source.pageId}-${source.sentenceIndex}`}
+                                onClick={() => handleOpenSource(source)}
+                                className="w-full flex items-center justify-between gap-3 text-left text-xs font-serif text-[#2C2420] dark:text-[#FDFBF7] hover:text-[#B26B4A]"
+                            >
+                                <span className="truncate">{bookTitle(source.bookId)} · Satz {source.sentenceIndex + 1}</span>
+                                <ChevronRight className="w-4 h-4 shrink-0 text-[#A5A58D]" />
+                            </button>
+                        ))}
+                    </div>
                 </div>
             )}
 
@@ -195,6 +439,18 @@ const VocabTrainer: React.FC = () => {
     );
   }
 
+  if (mode === 'conjugate') {
+      return <ConjugationDrill cards={conjugationCards} onExit={() => setMode('list')} />;
+  }
+
+  if (mode === 'dictation') {
+      return <DictationTrainer onExit={() => setMode('list')} />;
+  }
+
+  if (mode === 'cloze') {
+      return <ClozeDrill cards={clozeCards} onExit={() => { setMode('list'); loadVocab(); }} />;
+  }
+
   if (mode === 'setup') {
       const toggleCat = (c: WordCategory | 'other') => {
           const next = new Set(selectedCategories);
@@ -206,6 +462,11 @@ const VocabTrainer: React.FC = () => {
           if (next.has(s)) next.delete(s); else next.add(s);
           setSelectedStatus(next);
       };
+      const toggleBook = (id: string) => {
+          const next = new Set(selectedBookIds);
+          if (next.has(id)) next.delete(id); else next.add(id);
+          setSelectedBookIds(next);
+      };
 
       return (
           <div className="animate-fade-in max-w-lg mx-auto pb-32">
@@ -213,24 +474,105 @@ const VocabTrainer: React.FC = () => {
               
               <div className="space-y-8">
                   <section>
-                      <h3 className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C] mb-4">Kategorien</h3>
+                      <h3 className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C] mb-4">Modus</h3>
                       <div className="flex flex-wrap gap-2">
-                          {['noun', 'verb', 'adjective', 'other'].map(c => (
-                              <button key={c} onClick={() => toggleCat(c as any)} className={`px-4 py-2 rounded-xl text-xs font-bold transition-all border ${selectedCategories.has(c as any) ? 'bg-[#2C2420] text-white' : 'bg-white border-[#EAE2D6] text-[#6B705C]'}`}>
-                                  {c === 'noun' ? 'Nomen' : c === 'verb' ? 'Verben' : c === 'adjective' ? 'Adjektive' : 'Andere'}
+                          {[
+                              { m: 'cards', label: 'Karteikarten' },
+                              { m: 'cloze', label: 'Lückentext' },
+                              { m: 'conjugation', label: 'Konjugation' },
+                              { m: 'dictation', label: 'Diktat' }
+                          ].map(o => (
+                              <button key={o.m} onClick={() => setTrainingMode(o.m as typeof trainingMode)} className={`px-4 py-2 rounded-xl text-xs font-bold transition-all border ${trainingMode === o.m ? 'bg-[#2C2420] text-white' : 'bg-white border-[#EAE2D6] text-[#6B705C]'}`}>
+                                  {o.label}
                               </button>
                           ))}
                       </div>
-                      {selectedCategories.has('verb') && (
+                      {trainingMode === 'conjugation' && (
                           <label className="flex items-center gap-3 mt-4 cursor-pointer group">
-                              <div onClick={() => setVerbsOnlyBase(!verbsOnlyBase)} className={`w-5 h-5 rounded border flex items-center justify-center transition-colors ${verbsOnlyBase ? 'bg-[#B26B4A] border-transparent' : 'border-[#EAE2D6]'}`}>
-                                  {verbsOnlyBase && <Check className="w-3 h-3 text-white" />}
+                              <div onClick={() => setUseConjugationTable(!useConjugationTable)} className={`w-5 h-5 rounded border flex items-center justify-center transition-colors ${useConjugationTable ? 'bg-[#B26B4A] border-transparent' : 'border-[#EAE2D6]'}`}>
+                                  {useConjugationTable && <Check className="w-3 h-3 text-white" />}
                               </div>
-                              <span className="text-xs font-serif text-[#6B705C] group-hover:text-[#2C2420]">Nur Grundformen bei Verben</span>
+                              <span className="text-xs font-serif text-[#6B705C] group-hover:text-[#2C2420]">Regelmäßige Verben mit allen Personen ergänzen</span>
                           </label>
                       )}
                   </section>
 
+                  {(trainingMode === 'cards' || trainingMode === 'cloze') && (
+                  <section>
+                      <h3 className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C] mb-4">Wiederholung</h3>
+                      <label className="flex items-center gap-3 cursor-pointer group">
+                          <div onClick={() => setDueOnly(!dueOnly)} className={`w-5 h-5 rounded border flex items-center justify-center transition-colors ${dueOnly ? 'bg-[#B26B4A] border-transparent' : 'border-[#EAE2D6]'}`}>
+                              {dueOnly && <Check className="w-3 h-3 text-white" />}
+                          </div>
+                          <span className="text-xs font-serif text-[#6B705C] group-hover:text-[#2C2420]">Nur heute fällige Karten ({dueCount})</span>
+                      </label>
+                  </section>
+                  )}
+
+                  {(trainingMode === 'cards' || trainingMode === 'cloze') && (
+                  <section>
+                      <h3 className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C] mb-4">Kategorien</h3>
+                      <div className="flex flex-wrap gap-2">
+                          {['noun', 'verb', 'adjective', 'other'].map(c => (
+                              <button key={c} onClick={() => toggleCat(c as any)} className={`px-4 py-2 rounded-xl text-xs font-bold transition-all border ${selectedCategories.has(c as any) ? 'bg-[#2C2420] text-white' : 'bg-white border-[#EAE2D6] text-[#6B705C]'}`}>
+                                  {c === 'noun' ? 'Nomen' : c === 'verb' ? 'Verben' : c === 'adjective' ? 'Adjektive' : 'Andere'}
+                              </button>
+                          ))}
+                      </div>
+                  </section>
+                  )}
+
+                  {trainingMode === 'cards' && (
+                  <section>
+                      <h3 className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C] mb-4">Antworten</h3>
+                      <div className="flex flex-wrap gap-2">
+                          {[
+                              { a: 'reveal', label: 'Selbst bewerten' },
+                              { a: 'type-de', label: 'Deutsch tippen' },
+                              { a: 'type-es', label: 'Spanisch tippen' },
+                              { a: 'choice', label: 'Multiple Choice' }
+                          ].map(o => (
+                              <button key={o.a} onClick={() => setAnswerMode(o.a as typeof answerMode)} className={`px-4 py-2 rounded-xl text-xs font-bold transition-all border ${answerMode === o.a ? 'bg-[#2C2420] text-white' : 'bg-white border-[#EAE2D6] text-[#6B705C]'}`}>
+                                  {o.label}
+                              </button>
+                          ))}
+                      </div>
+                  </section>
+                  )}
+
+                  {trainingMode === 'cards' && (
+                  <section>
+                      <h3 className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C] mb-4">Abfragen</h3>
+                      <div className="flex flex-wrap gap-2">
+                          {[
+                              { t: 'lemma', label: 'Grundform' },
+                              { t: 'forms', label: 'Gelesene Formen' }
+                          ].map(o => (
+                              <button key={o.t} onClick={() => setDrillTarget(o.t as 'lemma' | 'forms')} className={`px-4 py-2 rounded-xl text-xs font-bold transition-all border ${drillTarget === o.t ? 'bg-[#2C2420] text-white' : 'bg-white border-[#EAE2D6] text-[#6B705C]'}`}>
+                                  {o.label}
+                              </button>
+                          ))}
+                      </div>
+                  </section>
+                  )}
+
+                  {trainingMode !== 'dictation' && books.length > 0 && (
+                  <section>
+                      <h3 className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C] mb-4">Bücher</h3>
+                      <div className="flex flex-wrap gap-2">
+                          <button onClick={() => setSelectedBookIds(new Set())} className={`px-4 py-2 rounded-xl text-xs font-bold transition-all border ${selectedBookIds.size === 0 ? 'bg-[#2C2420] text-white' : 'bg-white border-[#EAE2D6] text-[#6B705C]'}`}>
+                              Alle
+                          </button>
+                          {books.map(book => (
+                              <button key={book.id} onClick={() => toggleBook(book.id)} className={`px-4 py-2 rounded-xl text-xs font-bold transition-all border max-w-[12rem] truncate ${selectedBookIds.has(book.id) ? 'bg-[#2C2420] text-white' : 'bg-white border-[#EAE2D6] text-[#6B705C]'}`}>
+                                  {book.title}
+                              </button>
+                          ))}
+                      </div>
+                  </section>
+                  )}
+
+                  {trainingMode !== 'dictation' && (
                   <section>
                       <h3 className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C] mb-4">Lernstatus</h3>
                       <div className="flex flex-wrap gap-2">
@@ -241,6 +583,7 @@ const VocabTrainer: React.FC = () => {
                           ))}
                       </div>
                   </section>
+                  )}
               </div>
 
               <div className="fixed bottom-0 left-0 right-0 p-6 bg-[#FDFBF7] dark:bg-[#12100E] border-t border-[#EAE2D6] dark:border-[#2C2420] flex gap-3">
@@ -253,6 +596,7 @@ const VocabTrainer: React.FC = () => {
 
   if (mode === 'train') {
       const card = sessionQueue[currentCardIndex];
+      const askSpanish = answerMode === 'type-es';
       return (
           <div className="fixed inset-0 bg-[#FDFBF7] dark:bg-[#12100E] flex flex-col z-[60] animate-fade-in">
               <header className="px-6 py-4 flex justify-between items-center border-b border-[#EAE2D6] dark:border-[#2C2420]">
@@ -263,26 +607,49 @@ const VocabTrainer: React.FC = () => {
               <main className="flex-grow flex flex-col items-center justify-center p-8 overflow-y-auto">
                   <div className="w-full max-w-sm aspect-[4/5] bg-white dark:bg-[#1C1917] rounded-[3rem] shadow-2xl border border-[#EAE2D6] dark:border-[#2C2420] flex flex-col items-center justify-center p-10 text-center relative overflow-hidden group">
                       <span className="text-[9px] font-bold uppercase tracking-[0.3em] text-[#B26B4A] mb-8">{card.category || 'Wort'}</span>
-                      <h2 className={`font-serif font-bold text-[#2C2420] dark:text-[#FDFBF7] transition-all duration-500 ${showAnswer ? 'text-2xl mb-4' : 'text-5xl mb-12'}`}>{card.word}</h2>
+                      <h2 className={`font-serif font-bold text-[#2C2420] dark:text-[#FDFBF7] transition-all duration-500 ${showAnswer ? 'text-2xl mb-4' : 'text-5xl mb-12'}`}>{askSpanish ? card.translation : card.word}</h2>
                       
                       {showAnswer ? (
                           <div className="animate-fade-in flex flex-col items-center w-full">
-                              <h3 className="text-3xl font-serif font-bold text-[#B26B4A] mb-4">{card.translation}</h3>
+                              <h3 className="text-3xl font-serif font-bold text-[#B26B4A] mb-4">{askSpanish ? card.word : card.translation}</h3>
+                              {card.baseForm && card.baseForm !== card.word && (
+                                  <p className="text-[10px] font-bold uppercase tracking-widest text-[#6B705C] mb-4">
+                                      {[card.baseForm, card.tense, card.person].filter(Boolean).join(' · ')}
+                                  </p>
+                              )}
                               <div className="max-h-32 overflow-y-auto w-full px-2">
                                 <p className="text-sm font-serif italic text-[#6B705C] dark:text-[#A5A58D] leading-relaxed">{card.explanation}</p>
                               </div>
-                              <button onClick={() => playAudio(card.word, 'train')} className="mt-8 p-3 bg-[#FEFAE0] rounded-full text-[#B26B4A]">
-                                  {playingAudio === 'train' ? <Loader2 className="w-5 h-5 animate-spin" /> : <Volume2 className="w-5 h-5" />}
-                              </button>
+                              <div className="mt-8 flex gap-3">
+                                  <button onClick={() => playAudio(card.word, 'train')} className="p-3 bg-[#FEFAE0] rounded-full text-[#B26B4A]">
+                                      {playingAudio === 'train' ? <Loader2 className="w-5 h-5 animate-spin" /> : <Volume2 className="w-5 h-5" />}
+                                  </button>
+                                  {isPronunciationSupported() && (
+                                      <button onClick={() => setPracticeTarget({ text: card.word, translation: card.translation })} className="p-3 bg-[#FEFAE0] rounded-full text-[#6B705C]" title="Nachsprechen">
+                                          <Mic className="w-5 h-5" />
+                                      </button>
+                                  )}
+                              </div>
                           </div>
-                      ) : (
+                      ) : answerMode === 'reveal' ? (
                           <button onClick={() => setShowAnswer(true)} className="px-8 py-4 bg-[#FDFBF7] border border-[#EAE2D6] rounded-2xl text-[10px] font-bold uppercase tracking-widest text-[#6B705C] hover:bg-white transition-colors">Antwort zeigen</button>
-                      )}
+                      ) : null}
                   </div>
               </main>
 
               <footer className="p-6 bg-[#FDFBF7] dark:bg-[#12100E] border-t border-[#EAE2D6] dark:border-[#2C2420]">
-                   {showAnswer ? (
+                   {showAnswer && autoRating ? (
+                       <div className="flex flex-col gap-3">
+                           <p className={`text-center text-xs font-bold uppercase tracking-widest ${answerFeedback === 'exact' ? 'text-emerald-600' : answerFeedback === 'close' ? 'text-orange-600' : 'text-red-600'}`}>
+                               {answerFeedback === 'exact' ? 'Richtig' : answerFeedback === 'close' ? 'Fast richtig – auf Schreibweise achten' : 'Leider falsch'}
+                               {typedAnswer && answerFeedback !== 'exact' && <span className="normal-case tracking-normal font-serif italic font-normal"> („{typedAnswer}“)</span>}
+                               {chosenOption && answerFeedback === 'wrong' && <span className="normal-case tracking-normal font-serif italic font-normal"> („{chosenOption}“)</span>}
+                           </p>
+                           <button onClick={() => handleRating(autoRating)} className="w-full py-5 bg-[#2C2420] text-white rounded-2xl font-bold uppercase text-[10px] tracking-[0.2em] shadow-xl flex items-center justify-center gap-2">
+                               Weiter <span className="font-mono normal-case tracking-normal opacity-70">({formatInterval(scheduleReview(card, autoRating))})</span>
+                           </button>
+                       </div>
+                   ) : showAnswer ? (
                        <div className="grid grid-cols-4 gap-2">
                            {[
                                { l: 'again', label: 'Nochmal', c: 'bg-red-50 text-red-600 border-red-100' },
@@ -290,11 +657,34 @@ const VocabTrainer: React.FC = () => {
                                { l: 'good', label: 'Gut', c: 'bg-blue-50 text-blue-600 border-blue-100' },
                                { l: 'mastered', label: 'Gelernt', c: 'bg-[#6B705C] text-white border-transparent' }
                            ].map(b => (
-                               <button key={b.l} onClick={() => handleRating(b.l as any)} className={`py-4 rounded-xl text-[8px] font-bold uppercase tracking-widest border ${b.c}`}>
+                               <button key={b.l} onClick={() => handleRating(b.l as ReviewRating)} className={`py-3 rounded-xl text-[8px] font-bold uppercase tracking-widest border flex flex-col items-center gap-1 ${b.c}`}>
                                    {b.label}
+                                   <span className="text-[8px] font-mono normal-case tracking-normal opacity-70">{formatInterval(scheduleReview(card, b.l as ReviewRating))}</span>
+                               </button>
+                           ))}
+                       </div>
+                   ) : answerMode === 'choice' ? (
+                       <div className="grid grid-cols-2 gap-2">
+                           {choiceOptions.map(option => (
+                               <button key={option} onClick={() => handleChooseOption(option)} className="py-4 px-3 bg-white border border-[#EAE2D6] rounded-2xl text-sm font-serif text-[#2C2420] hover:border-[#B26B4A] transition-colors">
+                                   {option}
                                </button>
                            ))}
                        </div>
+                   ) : answerMode === 'type-de' || answerMode === 'type-es' ? (
+                       <form onSubmit={handleCheckTyped} className="flex gap-2">
+                           <input
+                               autoFocus
+                               value={typedAnswer}
+                               onChange={(e) => setTypedAnswer(e.target.value)}
+                               autoCapitalize="off"
+                               autoComplete="off"
+                               spellCheck={false}
+                               placeholder={askSpanish ? 'Spanisches Wort...' : 'Deutsche Bedeutung...'}
+                               className="flex-grow bg-white border border-[#EAE2D6] rounded-2xl py-4 px-4 font-serif outline-none focus:ring-2 focus:ring-[#B26B4A]/20 text-[#2C2420]"
+                           />
+                           <button type="submit" disabled={!typedAnswer.trim()} className="px-6 bg-[#2C2420] text-white rounded-2xl font-bold uppercase text-[10px] tracking-[0.2em] shadow-xl disabled:opacity-30">Prüfen</button>
+                       </form>
                    ) : (
                        <button onClick={() => setShowAnswer(true)} className="w-full py-5 bg-[#2C2420] text-white rounded-2xl font-bold uppercase text-[10px] tracking-[0.2em] shadow-xl">Karte umdrehen</button>
                    )}
@@ -309,7 +699,7 @@ const VocabTrainer: React.FC = () => {
         <div className="flex justify-between items-end mb-8">
             <div>
                 <h2 className="text-3xl font-serif font-bold text-[#2C2420] dark:text-[#FDFBF7]">Wortschatz</h2>
-                <p className="text-[#6B705C] dark:text-[#A5A58D] font-serif italic mt-1">{vocabList.length} Fundstücke gesammelt.</p>
+                <p className="text-[#6B705C] dark:text-[#A5A58D] font-serif italic mt-1">{vocabList.length} Fundstücke gesammelt, {dueCount} heute fällig.</p>
             </div>
             <div className="flex gap-2">
                 <button onClick={() => setMode('setup')} className="bg-[#B26B4A] text-white p-4 rounded-2xl shadow-lg hover:scale-105 transition-transform"><Layers className="w-6 h-6" /></button>
@@ -354,7 +744,10 @@ const VocabTrainer: React.FC = () => {
                                 {item.masteryLevel || 'Neu'}
                             </span>
                         </div>
-                        <p className="text-xs text-[#6B705C] dark:text-[#A5A58D] font-serif italic truncate max-w-[200px]">{item.translation}</p>
+                        <p className="text-xs text-[#6B705C] dark:text-[#A5A58D] font-serif italic truncate max-w-[200px]">
+                            {item.translation}
+                            {getForms(item).length > 1 && <span className="not-italic"> · {getForms(item).length} Formen</span>}
+                        </p>
                     </div>
                     {!isSelectionMode && <ChevronRight className="w-4 h-4 text-[#EAE2D6]" />}
                 </div>
@@ -0,0 +1,32 @@
+import React from 'react';
+import { DiffToken } from '../services/dictation';
+
+interface WordDiffProps {
+  tokens: DiffToken[];
+  className?: string;
+}
+
+// Original sentence with mistakes marked: wrong words struck through next to the correct one,
+// missing words underlined, extra words struck through.
+const WordDiff: React.FC<WordDiffProps> = ({ tokens, className = '' }) => {
+  return (
+    <p className={`text-xl font-serif leading-relaxed text-[#2C2420] dark:text-[#FDFBF7] ${className}`}>
+      {tokens.map((token, idx) => (
+        <span key={idx}>
+          {token.status === 'correct' && <span>{token.expected}</span>}
+          {token.status === 'wrong' && (
+            <span>
+              <span className="line-through text-red-500 decoration-2">{token.typed}</span>{' '}
+              <span className="text-emerald-700 dark:text-emerald-400 font-bold">{token.expected}</span>
+            </span>
+          )}
+          {token.status === 'missing' && <span className="text-orange-600 font-bold underline decoration-dotted">{token.expected}</span>}
+          {token.status === 'extra' && <span className="line-through text-red-500 decoration-2">{token.typed}</span>}
+          {' '}
+        </span>
+      ))}
+    </p>
+  );
+};
+
+export default WordDiff;
@@ -0,0 +1,95 @@
+import { BoundingBox, NewVocabItem, PageAnalysisResult, SentenceAnalysis, VocabSource, WordAnalysis } from '../types';
+import { lemmaKey } from './vocabLemmas';
+import { collectVocabFromSentence } from './vocabExtraction';
+
+// Manual corrections of an analysis: token surgery on a sentence and the vocab changes an edit implies.
+
+const SPACE_TOKEN: WordAnalysis = { word: ' ', type: 'punctuation' };
+
+const isWordToken = (w: WordAnalysis) => w.type !== 'punctuation';
+
+const unionBox = (a?: BoundingBox, b?: BoundingBox): BoundingBox | undefined => {
+  if (!a || !b) return a || b;
+  return [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[2], b[2]), Math.max(a[3], b[3])];
+};
+
+// Splits a word token at its spaces. The parts keep the category; translations are left to the user
+// or a re-analysis of the sentence.
+export const splitWord = (words: WordAnalysis[], index: number): WordAnalysis[] => {
+  const token = words[index];
+  const parts = token.word.trim().split(/\s+/);
+  if (parts.length < 2) return words;
+  const replacement = parts.flatMap((part, idx): WordAnalysis[] => [
+    ...(idx > 0 ? [SPACE_TOKEN] : []),
+    { word: part, type: 'word', ...(token.category ? { category: token.category } : {}) }
+  ]);
+  return [...words.slice(0, index), ...replacement, ...words.slice(index + 1)];
+};
+
+// Merges a word token with the next word token, including whatever stands between them.
+export const mergeWithNextWord = (words: WordAnalysis[], index: number): WordAnalysis[] => {
+  const nextIndex = words.findIndex((w, idx) => idx > index && isWordToken(w));
+  if (nextIndex === -1) return words;
+  const first = words[index];
+  const next = words[nextIndex];
+  const { subWords, box, ...rest } = first;
+  const merged: WordAnalysis = {
+    ...rest,
+    word: words.slice(index, nextIndex + 1).map(w => w.word).join('')
+  };
+  // Stored pages must not carry undefined fields, so an empty translation is left out
+  const translation = [first.translation, next.translation].filter(Boolean).join(' ');
+  if (translation) merged.translation = translation;
+  else delete merged.translation;
+  const mergedBox = unionBox(box, next.box);
+  if (mergedBox) merged.box = mergedBox;
+  return [...words.slice(0, index), merged, ...words.slice(nextIndex + 1)];
+};
+
+export const canMergeWithNext = (words: WordAnalysis[], index: number) => words.some((w, idx) => idx > index && isWordToken(w));
+
+// True while the tokens still spell the sentence, i.e. after edits that did not touch the text
+export const wordsMatchOriginal = (sentence: SentenceAnalysis) => {
+  return sentence.words.map(w => w.word).join('').trim() === sentence.original.trim();
+};
+
+// A single sentence sent through the analysis may come back as several; they are joined into one.
+export const toSingleSentence = (result: PageAnalysisResult, previous: SentenceAnalysis): SentenceAnalysis => {
+  const parts = result.sentences;
+  if (parts.length === 0) return previous;
+  return {
+    original: parts.map(s => s.original.trim()).join(' '),
+    translation: parts.map(s => s.translation.trim()).join(' '),
+    words: parts.flatMap((s, idx) => idx > 0 ? [SPACE_TOKEN, ...s.words] : s.words),
+    // Positions refer to the page image, which a text analysis knows nothing about
+    ...(previous.boxes ? { boxes: previous.boxes } : {})
+  };
+};
+
+export interface SentenceVocabChanges {
+  added: NewVocabItem[];
+  removed: NewVocabItem[];
+  changed: NewVocabItem[];
+}
+
+const entryKey = (entry: NewVocabItem) => `${entry.word.trim().toLowerCase()}|${lemmaKey(entry)}`;
+
+const sameAnalysis = (a: NewVocabItem, b: NewVocabItem) =>
+  a.translation === b.translation && a.explanation === b.explanation && a.category === b.category
+  && a.tense === b.tense && a.person === b.person;
+
+// Words are compared by surface form and lemma, so a corrected base form counts as removed and added.
+export const diffSentenceVocab = (before: SentenceAnalysis, after: SentenceAnalysis, source: VocabSource): SentenceVocabChanges => {
+  const oldEntries = new Map(collectVocabFromSentence(before, source).map(e => [entryKey(e), e]));
+  const newEntries = new Map(collectVocabFromSentence(after, source).map(e => [entryKey(e), e]));
+  const changes: SentenceVocabChanges = { added: [], removed: [], changed: [] };
+  newEntries.forEach((entry, key) => {
+    const old = oldEntries.get(key);
+    if (!old) changes.added.push(entry);
+    else if (!sameAnalysis(old, entry)) changes.changed.push(entry);
+  });
+  oldEntries.forEach((entry, key) => {
+    if (!newEntries.has(key)) changes.removed.push(entry);
+  });
+  return changes;
+};
@@ -0,0 +1,60 @@
+// Prompts shared by every analysis provider so that all of them produce the same PageAnalysisResult shape.
+
+export const ANALYSIS_SYSTEM_INSTRUCTION = "You are a professional Spanish-to-German translator. Extract all text and provide deep linguistic analysis including grammar details and literal translations.";
+
+export const IMAGE_ANALYSIS_PROMPT = `
+    Analyze the attached Spanish book page. You are an expert Spanish teacher.
+    CRITICAL INSTRUCTIONS:
+    1. COMPLETE TRANSCRIPTION: You MUST process EVERY SINGLE SENTENCE visible on the page.
+    2. PHRASE BINDING & BREAKDOWN:
+       - If you find a phrase (idioms like "tener que", reflexive verbs like "se levantó", compound tenses like "ha comido"), combine them into a SINGLE 'word' object first.
+       - IMPORTANT: For these combined phrases, you MUST also populate the 'subWords' array with the analysis of the individual words.
+    3. DETAILED VERB ANALYSIS:
+       - For every verb, you MUST provide the 'baseForm' (Infinitive).
+       - You MUST provide the 'tense' (Zeitform) and 'person' (Person) for verbs.
+    4. LITERAL TRANSLATION: If a phrase's meaning differs from the literal words, provide the literal translation in 'literalTranslation'.
+    5. Provide all results in German.
+    6. POSITIONS: For every sentence, give 'boxes' with one bounding box per printed line the sentence occupies on the page.
+       For every word, give its 'box'. Boxes are [ymin, xmin, ymax, xmax] normalized to 0-1000.
+  `;
+
+// Providers without native response schemas (e.g. OpenAI-compatible servers) get the expected shape spelled out.
+export const ANALYSIS_JSON_FORMAT = `
+    Respond ONLY with a JSON object of this shape:
+    {
+      "sentences": [{
+        "original": "The EXACT verbatim sentence",
+        "translation": "Natural German translation",
+        "boxes": [[ymin, xmin, ymax, xmax]] /* only for images: one box per printed line, 0-1000 */,
+        "words": [{
+          "word": "word, phrase, punctuation or space",
+          "type": "word" | "punctuation",
+          "translation": "German translation (required if type='word')",
+          "literalTranslation": "optional literal translation",
+          "explanation": "German grammar/context explanation",
+          "category": "noun" | "verb" | "adjective" | "function",
+          "baseForm": "lemma/infinitive (always for verbs)",
+          "tense": "for verbs, e.g. 'Präteritum'",
+          "person": "for verbs, e.g. '3. Pers. Sing.'",
+          "box": [ymin, xmin, ymax, xmax] /* only for images */,
+          "subWords": [ /* same shape, only for multi-word phrases */ ]
+        }]
+      }]
+    }
+  `;
+
+export const TEXT_ANALYSIS_PROMPT = `
+    Analyze the following Spanish text. You are an expert Spanish teacher.
+    CRITICAL INSTRUCTIONS:
+    1. COMPLETE TRANSCRIPTION: You MUST process EVERY SINGLE SENTENCE of the text, verbatim and in order.
+    2. PHRASE BINDING & BREAKDOWN:
+       - If you find a phrase (idioms like "tener que", reflexive verbs like "se levantó", compound tenses like "ha comido"), combine them into a SINGLE 'word' object first.
+       - IMPORTANT: For these combined phrases, you MUST also populate the 'subWords' array with the analysis of the individual words.
+    3. DETAILED VERB ANALYSIS:
+       - For every verb, you MUST provide the 'baseForm' (Infinitive).
+       - You MUST provide the 'tense' (Zeitform) and 'person' (Person) for verbs.
+    4. LITERAL TRANSLATION: If a phrase's meaning differs from the literal words, provide the literal translation in 'literalTranslation'.
+    5. Provide all results in German.
+
+    TEXT:
+  `;
@@ -0,0 +1,96 @@
+import { PageAnalysisResult, AnalysisProviderId, AnalysisProviderSettings } from "../types";
+import { getAnalysisProviderSettings } from "./storageService";
+import { geminiAnalysisProvider } from "./geminiService";
+import { ANALYSIS_SYSTEM_INSTRUCTION, IMAGE_ANALYSIS_PROMPT, TEXT_ANALYSIS_PROMPT, ANALYSIS_JSON_FORMAT } from "./analysisPrompt";
+import { SAMPLE_PAGE_ANALYSIS } from "./fixtureAnalysis";
+import { parseAnalysisResponse } from "./analysisValidation";
+import { GeminiRequestError } from "./geminiRequest";
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  description: string;
+  // The signal cancels the request, e.g. when the user leaves the analysis view
+  analyzeImage: (base64Image: string, settings: AnalysisProviderSettings, signal?: AbortSignal) => Promise<PageAnalysisResult>;
+  analyzeText: (text: string, settings: AnalysisProviderSettings, signal?: AbortSignal) => Promise<PageAnalysisResult>;
+}
+
+const requestChatCompletion = async (userContent: unknown, settings: AnalysisProviderSettings, signal?: AbortSignal): Promise<PageAnalysisResult> => {
+  if (!settings.endpointUrl || !settings.endpointModel) {
+    throw new Error("Kein Endpunkt konfiguriert. Bitte URL und Modell in den Einstellungen angeben.");
+  }
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.endpointApiKey) {
+    headers['Authorization'] = `Bearer ${settings.endpointApiKey}`;
+  }
+
+  try {
+    const response = await fetch(`${settings.endpointUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: settings.endpointModel,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: ANALYSIS_SYSTEM_INSTRUCTION },
+          { role: 'user', content: userContent }
+        ]
+      })
+    });
+    if (!response.ok) throw new Error(`Endpoint responded with ${response.status}`);
+    const data = await response.json();
+    const text: string | undefined = data.choices?.[0]?.message?.content;
+    if (!text) throw new Error("No response text from endpoint.");
+    return parseAnalysisResponse(text);
+  } catch (error) {
+    // fetch rejects with an AbortError; callers recognise cancellation by the shared error type
+    if (signal?.aborted || (error instanceof DOMException && error.name === 'AbortError')) {
+      throw new GeminiRequestError('cancelled', undefined, error);
+    }
+    console.error("Analysis failed:", error);
+    throw error;
+  }
+};
+
+// Talks to any server implementing the OpenAI chat completions API with vision support (Ollama, LM Studio, vLLM, ...).
+const openAICompatibleProvider: AnalysisProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI-kompatibler Endpunkt',
+  description: 'Lokales oder eigenes Modell über die Chat-Completions-API.',
+  analyzeImage: (base64Image, settings, signal) => requestChatCompletion([
+    { type: 'text', text: IMAGE_ANALYSIS_PROMPT + ANALYSIS_JSON_FORMAT },
+    { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${base64Image}` } }
+  ], settings, signal),
+  analyzeText: (text, settings, signal) => requestChatCompletion(ANALYSIS_JSON_FORMAT + TEXT_ANALYSIS_PROMPT + text, settings, signal)
+};
+
+const replayFixture = async (): Promise<PageAnalysisResult> => {
+  await new Promise(resolve => setTimeout(resolve, 600));
+  return structuredClone(SAMPLE_PAGE_ANALYSIS);
+};
+
+// Replays a bundled page so the reading flow can be tested offline and without burning API quota.
+const fixtureProvider: AnalysisProvider = {
+  id: 'fixture',
+  label: 'Testdaten (offline)',
+  description: 'Spielt eine mitgelieferte Beispielseite ab, ohne das Bild zu analysieren.',
+  analyzeImage: () => replayFixture(),
+  analyzeText: () => replayFixture()
+};
+
+export const ANALYSIS_PROVIDERS: AnalysisProvider[] = [geminiAnalysisProvider, openAICompatibleProvider, fixtureProvider];
+
+export const getAnalysisProvider = (id: AnalysisProviderId): AnalysisProvider => {
+  return ANALYSIS_PROVIDERS.find(p => p.id === id) || geminiAnalysisProvider;
+};
+
+export const analyzeImage = async (base64Image: string, signal?: AbortSignal): Promise<PageAnalysisResult> => {
+  const settings = getAnalysisProviderSettings();
+  return getAnalysisProvider(settings.provider).analyzeImage(base64Image, settings, signal);
+};
+
+export const analyzeText = async (text: string, signal?: AbortSignal): Promise<PageAnalysisResult> => {
+  const settings = getAnalysisProviderSettings();
+  return getAnalysisProvider(settings.provider).analyzeText(text, settings, signal);
+};
@@ -0,0 +1,189 @@
+import { BoundingBox, LineBox, PageAnalysisResult, SentenceAnalysis, WordAnalysis, WordCategory } from "../types";
+
+// Models do not always stick to the response schema. Every analysis passes through here before it
+// reaches the UI: missing fields are filled in, malformed entries dropped and the word list of each
+// sentence is checked against (and if possible repaired to match) the original sentence.
+
+export type AnalysisValidationCode = 'invalid-json' | 'invalid-shape' | 'empty';
+
+export class AnalysisValidationError extends Error {
+  readonly code: AnalysisValidationCode;
+  // Details on what was wrong, for the console
+  readonly issues: string[];
+
+  constructor(code: AnalysisValidationCode, message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'AnalysisValidationError';
+    this.code = code;
+    this.issues = issues;
+  }
+}
+
+export interface ValidatedAnalysis {
+  result: PageAnalysisResult;
+  // Everything that was normalized, dropped or repaired
+  issues: string[];
+}
+
+const CATEGORIES: WordCategory[] = ['noun', 'verb', 'adjective', 'function'];
+const NON_WORD = /^[\s\p{P}\p{S}]*$/u;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+export const isValidBox = (box: unknown): box is BoundingBox =>
+  Array.isArray(box) && box.length === 4 && box.every(v => typeof v === 'number' && isFinite(v)) && box[2] > box[0] && box[3] > box[1];
+
+// Accepts the model's [ymin, xmin, ymax, xmax] arrays as well as boxes already stored as objects
+export const toLineBox = (raw: unknown): LineBox | null => {
+  const box = Array.isArray(raw) ? raw : isObject(raw) ? [raw.ymin, raw.xmin, raw.ymax, raw.xmax] : null;
+  if (!isValidBox(box)) return null;
+  const [ymin, xmin, ymax, xmax] = box;
+  return { ymin, xmin, ymax, xmax };
+};
+
+const normalizeWord = (raw: unknown, path: string, issues: string[]): WordAnalysis | null => {
+  if (!isObject(raw)) {
+    issues.push(`${path}: kein Objekt, verworfen`);
+    return null;
+  }
+  const word = typeof raw.word === 'string' ? raw.word : typeof raw.word === 'number' ? String(raw.word) : '';
+  if (!word) {
+    issues.push(`${path}: ohne Text, verworfen`);
+    return null;
+  }
+
+  let type: 'word' | 'punctuation';
+  if (raw.type === 'word' || raw.type === 'punctuation') {
+    type = raw.type;
+  } else {
+    type = NON_WORD.test(word) ? 'punctuation' : 'word';
+    issues.push(`${path}: Typ ergänzt (${type})`);
+  }
+  if (type === 'punctuation') return { word, type };
+
+  const category = CATEGORIES.includes(raw.category as WordCategory) ? raw.category as WordCategory : undefined;
+  if (raw.category !== undefined && !category) issues.push(`${path}: unbekannte Kategorie '${raw.category}'`);
+
+  const subWords = Array.isArray(raw.subWords)
+    ? raw.subWords.map((sub, idx) => normalizeWord(sub, `${path}.subWords[${idx}]`, issues)).filter((w): w is WordAnalysis => w !== null)
+    : [];
+
+  const normalized: WordAnalysis = {
+    word,
+    type,
+    translation: optionalString(raw.translation) || '',
+    explanation: optionalString(raw.explanation) || '',
+    literalTranslation: optionalString(raw.literalTranslation),
+    category,
+    baseForm: optionalString(raw.baseForm),
+    tense: optionalString(raw.tense),
+    person: optionalString(raw.person),
+    subWords: subWords.length > 0 ? subWords : undefined,
+    box: isValidBox(raw.box) ? raw.box : undefined
+  };
+  // Drop the keys that stayed empty so stored pages do not carry undefined fields
+  (Object.keys(normalized) as (keyof WordAnalysis)[]).forEach(key => {
+    if (normalized[key] === undefined) delete normalized[key];
+  });
+  return normalized;
+};
+
+const squash = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Models often leave out the space and punctuation tokens between words. Walks the original
+// sentence and inserts the missing gaps; returns null when the words cannot be found in order.
+const repairWordSequence = (original: string, words: WordAnalysis[]): WordAnalysis[] | null => {
+  const repaired: WordAnalysis[] = [];
+  let cursor = 0;
+  for (const word of words) {
+    const index = original.indexOf(word.word, cursor);
+    if (index === -1) return null;
+    const gap = original.slice(cursor, index);
+    if (gap) {
+      if (!NON_WORD.test(gap)) return null;
+      repaired.push({ word: gap, type: 'punctuation' });
+    }
+    repaired.push(word);
+    cursor = index + word.word.length;
+  }
+  const rest = original.slice(cursor);
+  if (rest) {
+    if (!NON_WORD.test(rest)) return null;
+    repaired.push({ word: rest, type: 'punctuation' });
+  }
+  return repaired;
+};
+
+const normalizeSentence = (raw: unknown, path: string, issues: string[]): SentenceAnalysis | null => {
+  if (!isObject(raw)) {
+    issues.push(`${path}: kein Objekt, verworfen`);
+    return null;
+  }
+  let words = Array.isArray(raw.words)
+    ? raw.words.map((w, idx) => normalizeWord(w, `${path}.words[${idx}]`, issues)).filter((w): w is WordAnalysis => w !== null)
+    : [];
+  if (!Array.isArray(raw.words)) issues.push(`${path}: 'words' fehlt`);
+
+  let original = typeof raw.original === 'string' ? raw.original.trim() : '';
+  if (!original && words.length > 0) {
+    original = words.map(w => w.word).join('').trim();
+    issues.push(`${path}: 'original' aus den Wörtern rekonstruiert`);
+  }
+  if (!original) {
+    issues.push(`${path}: leerer Satz, verworfen`);
+    return null;
+  }
+
+  if (words.length > 0 && squash(words.map(w => w.word).join('')) !== squash(original)) {
+    const repaired = repairWordSequence(original, words);
+    if (repaired) {
+      words = repaired;
+      issues.push(`${path}: fehlende Leer- und Satzzeichen ergänzt`);
+    } else {
+      issues.push(`${path}: Wörter ergeben nicht den Originalsatz`);
+    }
+  }
+
+  const translation = typeof raw.translation === 'string' ? raw.translation : '';
+  if (!translation) issues.push(`${path}: Übersetzung fehlt`);
+  const boxes = Array.isArray(raw.boxes) ? raw.boxes.map(toLineBox).filter((box): box is LineBox => box !== null) : [];
+
+  return { original, translation, words, ...(boxes.length > 0 ? { boxes } : {}) };
+};
+
+export const validateAnalysis = (raw: unknown): ValidatedAnalysis => {
+  const issues: string[] = [];
+  // Some models wrap the result in an array or return the sentence list directly
+  const root = Array.isArray(raw) && raw.length === 1 && isObject(raw[0]) ? raw[0] : raw;
+  const rawSentences = Array.isArray(root) ? root : isObject(root) ? root.sentences : undefined;
+  if (!Array.isArray(rawSentences)) {
+    throw new AnalysisValidationError('invalid-shape', "Die Antwort des Modells hat ein unerwartetes Format.", ["'sentences' fehlt"]);
+  }
+
+  const sentences = rawSentences
+    .map((s, idx) => normalizeSentence(s, `sentences[${idx}]`, issues))
+    .filter((s): s is SentenceAnalysis => s !== null);
+  if (sentences.length === 0) {
+    throw new AnalysisValidationError('empty', "Auf der Seite wurde kein Text erkannt.", issues);
+  }
+  return { result: { sentences }, issues };
+};
+
+// Parses and validates the raw text of a model response.
+export const parseAnalysisResponse = (text: string): PageAnalysisResult => {
+  // Endpoints without JSON mode tend to wrap the object in a Markdown code fence
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    throw new AnalysisValidationError('invalid-json', "Die Antwort des Modells war kein gültiges JSON. Bitte versuche es erneut.", [String(e)]);
+  }
+  const { result, issues } = validateAnalysis(raw);
+  if (issues.length > 0) console.warn("Analysis response was normalized", issues);
+  return result;
+};
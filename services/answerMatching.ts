@@ -0,0 +1,52 @@
+// Lenient comparison of typed answers: accents, case, articles and small typos are tolerated,
+// and translations listing several meanings ("essen, speisen") accept each of them.
+
+export type AnswerMatch = 'exact' | 'close' | 'wrong';
+
+const ARTICLES = /^(der|die|das|ein|eine|einen|el|la|los|las|un|una|unos|unas)\s+/;
+
+export const stripAccents = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const normalize = (text: string) => text
+  .toLowerCase()
+  .replace(/\([^)]*\)/g, ' ')
+  .replace(/[¡!¿?.…"'«»]/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim()
+  .replace(ARTICLES, '');
+
+// Every meaning of an expected answer counts on its own
+const alternatives = (expected: string) => expected
+  .split(/[,;/]|\boder\b/)
+  .map(normalize)
+  .filter(a => a.length > 0);
+
+const levenshtein = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = current;
+    }
+  }
+  return row[b.length];
+};
+
+// One typo per five letters, so short words must be spelled correctly
+const allowedTypos = (word: string) => Math.floor(word.length / 5);
+
+export const matchAnswer = (input: string, expected: string): AnswerMatch => {
+  const given = normalize(input);
+  if (!given) return 'wrong';
+  const options = alternatives(expected);
+  if (options.includes(given)) return 'exact';
+  const close = options.some(option => {
+    const a = stripAccents(option);
+    const b = stripAccents(given);
+    return a === b || levenshtein(a, b) <= allowedTypos(a);
+  });
+  return close ? 'close' : 'wrong';
+};
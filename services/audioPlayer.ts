@@ -0,0 +1,68 @@
+// One shared player for all generated speech, so a new clip always stops the previous one.
+// The PCM is wrapped in a WAV container and played through an <audio> element, which keeps
+// the pitch when the playback speed changes.
+
+const SAMPLE_RATE = 24000;
+
+let audio: HTMLAudioElement | null = null;
+let objectUrl: string | null = null;
+let finishCurrent: (() => void) | null = null;
+
+const pcmToWav = (pcm: Uint8Array, sampleRate: number = SAMPLE_RATE): Blob => {
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+  return new Blob([header, pcm], { type: 'audio/wav' });
+};
+
+const getAudio = () => {
+  if (!audio) {
+    audio = new Audio();
+    audio.onended = () => finishCurrent?.();
+  }
+  return audio;
+};
+
+const waitForEnd = (): Promise<void> => {
+  return new Promise(resolve => {
+    finishCurrent = () => {
+      finishCurrent = null;
+      resolve();
+    };
+  });
+};
+
+// Resolves when the clip has finished or was stopped.
+export const playPcm = async (pcm: Uint8Array, rate: number = 1): Promise<void> => {
+  stopAudio();
+  const player = getAudio();
+  if (objectUrl) URL.revokeObjectURL(objectUrl);
+  objectUrl = URL.createObjectURL(pcmToWav(pcm));
+  player.src = objectUrl;
+  player.playbackRate = rate;
+  const ended = waitForEnd();
+  await player.play();
+  return ended;
+};
+
+export const stopAudio = () => {
+  if (!audio) return;
+  audio.pause();
+  audio.currentTime = 0;
+  finishCurrent?.();
+};
@@ -0,0 +1,42 @@
+import { VocabItem } from '../types';
+import { getForms } from './vocabLemmas';
+
+// Builds cloze cards from the sentences a word was found in. The blank always asks for the form
+// exactly as it appeared, so inflected forms have to be produced from the lemma.
+
+export interface ClozeCard {
+  item: VocabItem;
+  before: string;
+  after: string;
+  answer: string;
+  sentenceTranslation?: string;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Splits the sentence around the first whole-word occurrence of the form
+const findBlank = (sentence: string, form: string) => {
+  const pattern = new RegExp(`(^|[^\\p{L}])(${escapeRegExp(form.trim())})(?=[^\\p{L}]|$)`, 'iu');
+  const match = pattern.exec(sentence);
+  if (!match) return null;
+  const start = match.index + match[1].length;
+  const end = start + match[2].length;
+  return { before: sentence.slice(0, start), after: sentence.slice(end), answer: match[2] };
+};
+
+export const buildClozeCard = (item: VocabItem, translations: Map<string, string>): ClozeCard | null => {
+  const candidates = getForms(item)
+    .filter(form => form.contextSentence)
+    .sort(() => Math.random() - 0.5);
+  for (const form of candidates) {
+    const sentence = form.contextSentence!;
+    const blank = findBlank(sentence, form.word);
+    if (!blank) continue;
+    return {
+      item,
+      ...blank,
+      sentenceTranslation: form.contextTranslation || translations.get(sentence.trim())
+    };
+  }
+  return null;
+};
@@ -0,0 +1,216 @@
+import { VocabItem } from '../types';
+import { getForms } from './vocabLemmas';
+import { stripAccents } from './answerMatching';
+
+// Conjugation helpers for the drill mode: maps the free-form tense and person labels from the
+// analysis onto a fixed set, and conjugates regular verbs from a bundled ending table.
+// Stem-changing verbs cannot be recognized from the infinitive, so forms seen while reading
+// always take precedence over the table.
+
+export type TenseId = 'presente' | 'indefinido' | 'imperfecto' | 'futuro' | 'condicional' | 'subjuntivo' | 'perfecto';
+
+// 0-2 singular, 3-5 plural
+export type PersonIndex = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const TENSE_LABELS: Record<TenseId, string> = {
+  presente: 'Präsens (Presente)',
+  indefinido: 'Präteritum (Indefinido)',
+  imperfecto: 'Imperfekt (Imperfecto)',
+  futuro: 'Futur (Futuro)',
+  condicional: 'Konditional (Condicional)',
+  subjuntivo: 'Subjuntivo Präsens',
+  perfecto: 'Perfekt (Pretérito perfecto)'
+};
+
+export const PERSON_LABELS = ['yo', 'tú', 'él / ella / usted', 'nosotros', 'vosotros', 'ellos / ustedes'];
+
+const REFLEXIVE_PRONOUNS = ['me', 'te', 'se', 'nos', 'os', 'se'];
+const HABER_PRESENT = ['he', 'has', 'ha', 'hemos', 'habéis', 'han'];
+
+type VerbClass = 'ar' | 'er' | 'ir';
+
+const ENDINGS: Record<Exclude<TenseId, 'futuro' | 'condicional' | 'perfecto'>, Record<VerbClass, string[]>> = {
+  presente: {
+    ar: ['o', 'as', 'a', 'amos', 'áis', 'an'],
+    er: ['o', 'es', 'e', 'emos', 'éis', 'en'],
+    ir: ['o', 'es', 'e', 'imos', 'ís', 'en']
+  },
+  indefinido: {
+    ar: ['é', 'aste', 'ó', 'amos', 'asteis', 'aron'],
+    er: ['í', 'iste', 'ió', 'imos', 'isteis', 'ieron'],
+    ir: ['í', 'iste', 'ió', 'imos', 'isteis', 'ieron']
+  },
+  imperfecto: {
+    ar: ['aba', 'abas', 'aba', 'ábamos', 'abais', 'aban'],
+    er: ['ía', 'ías', 'ía', 'íamos', 'íais', 'ían'],
+    ir: ['ía', 'ías', 'ía', 'íamos', 'íais', 'ían']
+  },
+  subjuntivo: {
+    ar: ['e', 'es', 'e', 'emos', 'éis', 'en'],
+    er: ['a', 'as', 'a', 'amos', 'áis', 'an'],
+    ir: ['a', 'as', 'a', 'amos', 'áis', 'an']
+  }
+};
+const FUTURE_ENDINGS = ['é', 'ás', 'á', 'emos', 'éis', 'án'];
+const CONDITIONAL_ENDINGS = ['ía', 'ías', 'ía', 'íamos', 'íais', 'ían'];
+
+// Frequent irregular and stem-changing verbs the table must not guess
+const IRREGULAR_VERBS = new Set([
+  'ser', 'estar', 'ir', 'haber', 'tener', 'hacer', 'poder', 'decir', 'poner', 'venir', 'querer', 'saber', 'salir',
+  'ver', 'dar', 'oír', 'caer', 'traer', 'valer', 'caber', 'andar', 'leer', 'creer', 'reír', 'pedir', 'seguir',
+  'sentir', 'dormir', 'morir', 'pensar', 'contar', 'volver', 'encontrar', 'jugar', 'empezar', 'entender', 'perder',
+  'preferir', 'servir', 'repetir', 'vestir', 'mentir', 'mover', 'llover', 'recordar', 'costar', 'mostrar', 'sonar',
+  'volar', 'almorzar', 'comenzar', 'cerrar', 'despertar', 'sentar', 'acostar', 'elegir', 'probar', 'soñar',
+  'devolver', 'resolver', 'despedir', 'conseguir', 'divertir', 'advertir', 'convertir', 'medir', 'oler'
+]);
+
+export const normalizeTense = (label?: string): TenseId | null => {
+  if (!label) return null;
+  const t = stripAccents(label.toLowerCase());
+  if (t.includes('plusquam') || t.includes('pluscuam') || t.includes('imperativ') || t.includes('infinitiv')
+    || t.includes('gerund') || t.includes('partizip') || t.includes('participio')) return null;
+  if (t.includes('subjuntivo') || t.includes('konjunktiv')) {
+    return t.includes('imperf') || t.includes('prater') ? null : 'subjuntivo';
+  }
+  if (t.includes('condicional') || t.includes('konditional')) return 'condicional';
+  if (t.includes('futur')) return 'futuro';
+  if (t.includes('imperf')) return 'imperfecto';
+  if (t.includes('indefinido') || t.includes('prateritum') || t.includes('perfecto simple')) return 'indefinido';
+  if (t.includes('perfekt') || t.includes('perfecto')) return 'perfecto';
+  if (t.includes('prasens') || t.includes('presente')) return 'presente';
+  return null;
+};
+
+export const normalizePerson = (label?: string): PersonIndex | null => {
+  if (!label) return null;
+  const p = stripAccents(label.toLowerCase());
+  const digit = p.match(/[123]/);
+  if (digit) {
+    const plural = /pl/.test(p);
+    return (Number(digit[0]) - 1 + (plural ? 3 : 0)) as PersonIndex;
+  }
+  const pronouns: [RegExp, PersonIndex][] = [
+    [/\byo\b/, 0], [/\btu\b/, 1], [/\bnosotr/, 3], [/\bvosotr/, 4], [/\b(ellos|ellas|ustedes)\b/, 5], [/\b(el|ella|usted)\b/, 2]
+  ];
+  const match = pronouns.find(([pattern]) => pattern.test(p));
+  return match ? match[1] : null;
+};
+
+// Keeps the pronunciation of the stem consonant in front of the ending (busqué, llegue, venzo, cojo)
+const joinStem = (stem: string, ending: string, verbClass: VerbClass) => {
+  const first = stripAccents(ending.charAt(0));
+  if (verbClass === 'ar' && first === 'e') {
+    if (stem.endsWith('c')) return stem.slice(0, -1) + 'qu' + ending;
+    if (stem.endsWith('g')) return stem.slice(0, -1) + 'gu' + ending;
+    if (stem.endsWith('z')) return stem.slice(0, -1) + 'c' + ending;
+  }
+  if (verbClass !== 'ar' && (first === 'a' || first === 'o')) {
+    if (stem.endsWith('gu')) return stem.slice(0, -1) + ending;
+    if (stem.endsWith('c')) return stem.slice(0, -1) + 'z' + ending;
+    if (stem.endsWith('g')) return stem.slice(0, -1) + 'j' + ending;
+  }
+  return stem + ending;
+};
+
+const splitReflexive = (infinitive: string) => {
+  const verb = infinitive.trim().toLowerCase();
+  return verb.endsWith('se') && /(ar|er|ir)se$/.test(verb)
+    ? { verb: verb.slice(0, -2), reflexive: true }
+    : { verb, reflexive: false };
+};
+
+export const isRegularVerb = (infinitive: string): boolean => {
+  const { verb } = splitReflexive(infinitive);
+  if (!/^[a-zñ]+(ar|er|ir)$/.test(verb)) return false;
+  if (IRREGULAR_VERBS.has(verb)) return false;
+  // -uir (construir) and vowel + -cer/-cir (conocer, traducir) are irregular as a group
+  return !/uir$/.test(verb) && !/[aeiou]c(er|ir)$/.test(verb);
+};
+
+export const conjugateRegular = (infinitive: string, tense: TenseId, person: PersonIndex): string | null => {
+  if (!isRegularVerb(infinitive)) return null;
+  const { verb, reflexive } = splitReflexive(infinitive);
+  const verbClass = verb.slice(-2) as VerbClass;
+  const stem = verb.slice(0, -2);
+
+  let form: string;
+  if (tense === 'futuro') form = verb + FUTURE_ENDINGS[person];
+  else if (tense === 'condicional') form = verb + CONDITIONAL_ENDINGS[person];
+  else if (tense === 'perfecto') form = `${HABER_PRESENT[person]} ${stem}${verbClass === 'ar' ? 'ado' : 'ido'}`;
+  else {
+    form = joinStem(stem, ENDINGS[tense][verbClass][person], verbClass);
+  }
+  return reflexive ? `${REFLEXIVE_PRONOUNS[person]} ${form}` : form;
+};
+
+export interface ConjugationCard {
+  itemId: string;
+  infinitive: string;
+  translation: string;
+  tense: TenseId;
+  person: PersonIndex;
+  answers: string[];
+  fromTable: boolean; // answer comes from the ending table, not from a text
+  contextSentence?: string;
+}
+
+const MAX_SESSION_CARDS = 20;
+const DEFAULT_TABLE_TENSES: TenseId[] = ['presente', 'indefinido'];
+
+const normalizeAnswer = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const shuffle = <T>(items: T[]): T[] => [...items].sort(() => Math.random() - 0.5);
+
+// Cards for forms seen in the books; with useTable, regular verbs are completed to all persons
+// of the tenses they were seen in.
+export const buildConjugationCards = (verbs: VocabItem[], useTable: boolean): ConjugationCard[] => {
+  const seenCards: ConjugationCard[] = [];
+  const tableCards: ConjugationCard[] = [];
+
+  verbs.forEach(item => {
+    const infinitive = item.word.trim().toLowerCase();
+    const byKey = new Map<string, ConjugationCard>();
+    getForms(item).forEach(form => {
+      const tense = normalizeTense(form.tense);
+      const person = normalizePerson(form.person);
+      if (tense === null || person === null) return;
+      const key = `${tense}|${person}`;
+      const answer = normalizeAnswer(form.word);
+      const existing = byKey.get(key);
+      if (existing) {
+        if (!existing.answers.includes(answer)) existing.answers.push(answer);
+        return;
+      }
+      byKey.set(key, { itemId: item.id, infinitive, translation: item.translation, tense, person, answers: [answer], fromTable: false, contextSentence: form.contextSentence });
+    });
+    seenCards.push(...byKey.values());
+
+    if (!useTable || !isRegularVerb(infinitive)) return;
+    const seenTenses = Array.from(new Set(Array.from(byKey.values()).map(c => c.tense)));
+    (seenTenses.length > 0 ? seenTenses : DEFAULT_TABLE_TENSES).forEach(tense => {
+      ([0, 1, 2, 3, 4, 5] as PersonIndex[]).forEach(person => {
+        if (byKey.has(`${tense}|${person}`)) return;
+        const form = conjugateRegular(infinitive, tense, person);
+        if (form) tableCards.push({ itemId: item.id, infinitive, translation: item.translation, tense, person, answers: [form], fromTable: true });
+      });
+    });
+  });
+
+  // Seen forms first, the table only fills up the session
+  return shuffle([...shuffle(seenCards), ...shuffle(tableCards)].slice(0, MAX_SESSION_CARDS));
+};
+
+export type ConjugationResult = 'correct' | 'accent' | 'wrong';
+
+export const checkConjugation = (input: string, answers: string[]): ConjugationResult => {
+  const given = normalizeAnswer(input);
+  if (!given) return 'wrong';
+  // The reflexive pronoun may be left out
+  const accepted = answers.flatMap(a => {
+    const parts = a.split(' ');
+    return parts.length > 1 && REFLEXIVE_PRONOUNS.includes(parts[0]) ? [a, parts.slice(1).join(' ')] : [a];
+  });
+  if (accepted.includes(given)) return 'correct';
+  if (accepted.some(a => stripAccents(a) === stripAccents(given))) return 'accent';
+  return 'wrong';
+};
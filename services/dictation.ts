@@ -0,0 +1,94 @@
+import { DictationRecord } from '../types';
+
+// Word-level comparison (used by dictation and pronunciation practice) and the choice of sentences to practice.
+
+export type DiffStatus = 'correct' | 'wrong' | 'missing' | 'extra';
+
+export interface DiffToken {
+  status: DiffStatus;
+  expected?: string; // word of the original sentence
+  typed?: string;
+}
+
+export interface DictationSentence {
+  sentence: string;
+  translation?: string;
+}
+
+const SESSION_SIZE = 10;
+const WEAK_ACCURACY = 0.9;
+
+// FNV-1a, enough to key sentences without storing the text as document id
+export const sentenceId = (sentence: string): string => {
+  let hash = 0x811c9dc5;
+  const text = sentence.trim();
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `s${hash.toString(16)}${text.length.toString(16)}`;
+};
+
+const tokenize = (text: string) => text.split(/\s+/).filter(t => t.length > 0);
+const comparable = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Aligns typed words with the original via LCS; unmatched pairs at the same spot count as wrong.
+export const diffWords = (expectedText: string, typedText: string): DiffToken[] => {
+  const expected = tokenize(expectedText);
+  const typed = tokenize(typedText);
+  const a = expected.map(comparable);
+  const b = typed.map(comparable);
+
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const tokens: DiffToken[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      tokens.push({ status: 'correct', expected: expected[i++], typed: typed[j++] });
+    } else if (i < a.length && j < b.length && lcs[i + 1][j + 1] === lcs[i][j]) {
+      tokens.push({ status: 'wrong', expected: expected[i++], typed: typed[j++] });
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      tokens.push({ status: 'missing', expected: expected[i++] });
+    } else {
+      tokens.push({ status: 'extra', typed: typed[j++] });
+    }
+  }
+  return tokens;
+};
+
+export const diffAccuracy = (tokens: DiffToken[]): number => {
+  const expectedCount = tokens.filter(t => t.expected !== undefined).length;
+  if (expectedCount === 0) return 1;
+  return tokens.filter(t => t.status === 'correct').length / expectedCount;
+};
+
+// Weak sentences come back first, then new ones, then the ones practiced longest ago.
+export const selectDictationSentences = (
+  candidates: DictationSentence[],
+  records: DictationRecord[],
+  count: number = SESSION_SIZE
+): DictationSentence[] => {
+  const recordById = new Map(records.map(r => [r.id, r]));
+  const withRecord = candidates.map(c => ({ candidate: c, record: recordById.get(sentenceId(c.sentence)) }));
+
+  const weak = withRecord
+    .filter(c => c.record && c.record.lastAccuracy < WEAK_ACCURACY)
+    .sort((x, y) => x.record!.lastAccuracy - y.record!.lastAccuracy);
+  const fresh = withRecord.filter(c => !c.record).sort(() => Math.random() - 0.5);
+  const known = withRecord
+    .filter(c => c.record && c.record.lastAccuracy >= WEAK_ACCURACY)
+    .sort((x, y) => x.record!.lastPracticedAt - y.record!.lastPracticedAt);
+
+  // At most half the session repeats weak sentences so new material keeps coming
+  const weakPart = weak.slice(0, Math.ceil(count / 2));
+  return [...weakPart, ...fresh, ...weak.slice(weakPart.length), ...known]
+    .slice(0, count)
+    .map(c => c.candidate);
+};
@@ -0,0 +1,143 @@
+// Turns multi-page documents (PDF, EPUB, plain text) into a queue of pages for analysis.
+// Each source loads its content lazily so large PDFs are only rasterized page by page.
+
+export interface ImportPageSource {
+  label: string;
+  load: () => Promise<{ image?: string; text?: string }>;
+}
+
+const MAX_PAGE_SIZE = 1200;
+const MAX_PAGE_CHARS = 1500;
+
+export const isDocumentFile = (file: File): boolean => {
+  const name = file.name.toLowerCase();
+  return file.type === 'application/pdf' || file.type === 'application/epub+zip' || file.type === 'text/plain'
+    || name.endsWith('.pdf') || name.endsWith('.epub') || name.endsWith('.txt');
+};
+
+// Splits text into pages at paragraph boundaries; overlong paragraphs are split between sentences.
+export const splitTextIntoPages = (text: string, maxChars: number = MAX_PAGE_CHARS): string[] => {
+  const paragraphs = text
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n/)
+    .map(p => p.replace(/\s+/g, ' ').trim())
+    .filter(p => p.length > 0);
+
+  const chunks = paragraphs.flatMap(p => {
+    if (p.length <= maxChars) return [p];
+    const sentences = p.match(/[^.!?…]+[.!?…]+["»”']?\s*|[^.!?…]+$/g) || [p];
+    const parts: string[] = [];
+    let current = '';
+    sentences.forEach(sentence => {
+      if (current && (current + sentence).length > maxChars) {
+        parts.push(current.trim());
+        current = '';
+      }
+      current += sentence;
+    });
+    if (current.trim()) parts.push(current.trim());
+    return parts;
+  });
+
+  const pages: string[] = [];
+  let page = '';
+  chunks.forEach(chunk => {
+    if (page && page.length + chunk.length + 2 > maxChars) {
+      pages.push(page);
+      page = '';
+    }
+    page = page ? `${page}\n\n${chunk}` : chunk;
+  });
+  if (page) pages.push(page);
+  return pages;
+};
+
+const textSources = (pages: string[]): ImportPageSource[] => {
+  return pages.map((text, idx) => ({
+    label: `Abschnitt ${idx + 1}`,
+    load: async () => ({ text })
+  }));
+};
+
+const extractPdfPages = async (file: File): Promise<ImportPageSource[]> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+
+  return Array.from({ length: pdf.numPages }, (_, idx) => ({
+    label: `PDF-Seite ${idx + 1}`,
+    load: async () => {
+      const page = await pdf.getPage(idx + 1);
+      const baseViewport = page.getViewport({ scale: 1 });
+      const scale = MAX_PAGE_SIZE / Math.max(baseViewport.width, baseViewport.height);
+      const viewport = page.getViewport({ scale });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error("Canvas not available");
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      page.cleanup();
+
+      return { image: canvas.toDataURL('image/jpeg', 0.8).split(',')[1] };
+    }
+  }));
+};
+
+const BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, div';
+
+const extractEpubPages = async (file: File): Promise<ImportPageSource[]> => {
+  const { default: JSZip } = await import('jszip');
+  const zip = await JSZip.loadAsync(file);
+  const parser = new DOMParser();
+
+  const containerXml = await zip.file('META-INF/container.xml')?.async('string');
+  if (!containerXml) throw new Error("Ungültiges EPUB: container.xml fehlt.");
+  const opfPath = parser.parseFromString(containerXml, 'application/xml').querySelector('rootfile')?.getAttribute('full-path');
+  if (!opfPath) throw new Error("Ungültiges EPUB: Kein Inhaltsverzeichnis gefunden.");
+
+  const opfXml = await zip.file(opfPath)?.async('string');
+  if (!opfXml) throw new Error("Ungültiges EPUB: Paketdatei fehlt.");
+  const opf = parser.parseFromString(opfXml, 'application/xml');
+  const baseDir = opfPath.includes('/') ? opfPath.substring(0, opfPath.lastIndexOf('/') + 1) : '';
+
+  const manifest = new Map<string, string>();
+  opf.querySelectorAll('manifest > item').forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) manifest.set(id, decodeURIComponent(href));
+  });
+
+  // Chapters are kept apart so a page never spans two chapters
+  const pages: string[] = [];
+  for (const itemRef of Array.from(opf.querySelectorAll('spine > itemref'))) {
+    const href = manifest.get(itemRef.getAttribute('idref') || '');
+    if (!href) continue;
+    const html = await zip.file(baseDir + href)?.async('string');
+    if (!html) continue;
+
+    const chapter = parser.parseFromString(html, 'text/html');
+    // Only innermost blocks, otherwise nested markup would repeat its text
+    const blocks = Array.from(chapter.body.querySelectorAll(BLOCK_SELECTOR))
+      .filter(el => !el.querySelector(BLOCK_SELECTOR))
+      .map(el => el.textContent?.trim() || '')
+      .filter(t => t.length > 0);
+    const text = blocks.length > 0 ? blocks.join('\n\n') : chapter.body.textContent || '';
+    pages.push(...splitTextIntoPages(text));
+  }
+  return textSources(pages);
+};
+
+export const extractDocumentPages = async (file: File): Promise<ImportPageSource[]> => {
+  const name = file.name.toLowerCase();
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) {
+    return extractPdfPages(file);
+  }
+  if (file.type === 'application/epub+zip' || name.endsWith('.epub')) {
+    return extractEpubPages(file);
+  }
+  return textSources(splitTextIntoPages(await file.text()));
+};
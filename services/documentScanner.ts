@@ -0,0 +1,370 @@
+// Image processing for photographed book pages: finding the page in a frame, straightening it
+// with a perspective warp and stretching the contrast for better text recognition.
+// Everything runs on plain canvases so it works offline and without extra libraries.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners in the order top-left, top-right, bottom-right, bottom-left, normalized to 0..1
+export type Quad = [Point, Point, Point, Point];
+
+export const FULL_FRAME: Quad = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+const DETECT_SIZE = 256;
+const MAX_OUTPUT_SIZE = 1200;
+// A detected page smaller than this share of the frame is more likely noise than a page
+const MIN_PAGE_AREA = 0.15;
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+const context2d = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas not available");
+  return ctx;
+};
+
+// Draws a video frame, image or canvas scaled so that its longer side is at most maxSize.
+export const drawScaled = (source: CanvasImageSource, width: number, height: number, maxSize: number) => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const canvas = createCanvas(width * scale, height * scale);
+  context2d(canvas).drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const toGray = (data: Uint8ClampedArray, length: number) => {
+  const gray = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return gray;
+};
+
+// 3x3 box blur, enough to close the gaps that printed text leaves in the page area
+const blur = (gray: Uint8Array, width: number, height: number) => {
+  const out = new Uint8Array(gray.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          sum += gray[ny * width + nx];
+          count++;
+        }
+      }
+      out[y * width + x] = sum / count;
+    }
+  }
+  return out;
+};
+
+const otsuThreshold = (gray: Uint8Array) => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+  const total = gray.length;
+  const sumAll = histogram.reduce((sum, count, value) => sum + count * value, 0);
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let threshold = 127;
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > best) {
+      best = variance;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+// Largest 4-connected region of set pixels, as a list of pixel indices
+const largestRegion = (mask: Uint8Array, width: number, height: number): number[] => {
+  const visited = new Uint8Array(mask.length);
+  let largest: number[] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+    const region: number[] = [];
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const idx = stack.pop()!;
+      region.push(idx);
+      const x = idx % width;
+      const neighbours = [
+        x > 0 ? idx - 1 : -1,
+        x < width - 1 ? idx + 1 : -1,
+        idx - width,
+        idx + width
+      ];
+      for (const n of neighbours) {
+        if (n < 0 || n >= mask.length || visited[n] || !mask[n]) continue;
+        visited[n] = 1;
+        stack.push(n);
+      }
+    }
+    if (region.length > largest.length) largest = region;
+  }
+  return largest;
+};
+
+// Finds the page edges as the outline of the largest bright region (paper against a darker
+// background). Its corners are the region's extreme points along both diagonals.
+// Returns null when no plausible page is visible.
+export const detectPageQuad = (source: CanvasImageSource, width: number, height: number): Quad | null => {
+  const small = drawScaled(source, width, height, DETECT_SIZE);
+  const w = small.width;
+  const h = small.height;
+  const { data } = context2d(small).getImageData(0, 0, w, h);
+  const gray = blur(toGray(data, w * h), w, h);
+  const threshold = otsuThreshold(gray);
+  const mask = new Uint8Array(gray.length);
+  gray.forEach((v, i) => { mask[i] = v > threshold ? 1 : 0; });
+
+  const region = largestRegion(mask, w, h);
+  if (region.length < w * h * MIN_PAGE_AREA) return null;
+
+  let tl = region[0], tr = region[0], br = region[0], bl = region[0];
+  const sum = (i: number) => (i % w) + Math.floor(i / w);
+  const diff = (i: number) => (i % w) - Math.floor(i / w);
+  region.forEach(i => {
+    if (sum(i) < sum(tl)) tl = i;
+    if (sum(i) > sum(br)) br = i;
+    if (diff(i) > diff(tr)) tr = i;
+    if (diff(i) < diff(bl)) bl = i;
+  });
+  const toPoint = (i: number): Point => ({ x: (i % w) / (w - 1), y: Math.floor(i / w) / (h - 1) });
+  return [toPoint(tl), toPoint(tr), toPoint(br), toPoint(bl)];
+};
+
+// Solves A·x = b by Gaussian elimination with partial pivoting.
+const solveLinear = (a: number[][], b: number[]): number[] => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+};
+
+// Homography mapping output pixels (u, v) onto source pixels (x, y)
+const homography = (from: Point[], to: Point[]) => {
+  const a: number[][] = [];
+  const b: number[] = [];
+  from.forEach(({ x: u, y: v }, i) => {
+    const { x, y } = to[i];
+    a.push([u, v, 1, 0, 0, 0, -u * x, -v * x]);
+    b.push(x);
+    a.push([0, 0, 0, u, v, 1, -u * y, -v * y]);
+    b.push(y);
+  });
+  const h = solveLinear(a, b);
+  return (u: number, v: number): Point => {
+    const d = h[6] * u + h[7] * v + 1;
+    return { x: (h[0] * u + h[1] * v + h[2]) / d, y: (h[3] * u + h[4] * v + h[5]) / d };
+  };
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Straightens the quad into a rectangle whose size follows the quad's edge lengths.
+export const warpPerspective = (source: HTMLCanvasElement, quad: Quad): HTMLCanvasElement => {
+  const corners = quad.map(p => ({ x: p.x * (source.width - 1), y: p.y * (source.height - 1) }));
+  const rawWidth = Math.max(distance(corners[0], corners[1]), distance(corners[3], corners[2]));
+  const rawHeight = Math.max(distance(corners[0], corners[3]), distance(corners[1], corners[2]));
+  const scale = Math.min(1, MAX_OUTPUT_SIZE / Math.max(rawWidth, rawHeight));
+  const output = createCanvas(rawWidth * scale, rawHeight * scale);
+  const ow = output.width;
+  const oh = output.height;
+
+  const map = homography(
+    [{ x: 0, y: 0 }, { x: ow - 1, y: 0 }, { x: ow - 1, y: oh - 1 }, { x: 0, y: oh - 1 }],
+    corners
+  );
+  const src = context2d(source).getImageData(0, 0, source.width, source.height).data;
+  const outCtx = context2d(output);
+  const out = outCtx.createImageData(ow, oh);
+  const sw = source.width;
+  const sh = source.height;
+
+  for (let v = 0; v < oh; v++) {
+    for (let u = 0; u < ow; u++) {
+      const { x, y } = map(u, v);
+      // Bilinear sampling
+      const x0 = Math.min(sw - 2, Math.max(0, Math.floor(x)));
+      const y0 = Math.min(sh - 2, Math.max(0, Math.floor(y)));
+      const fx = Math.min(1, Math.max(0, x - x0));
+      const fy = Math.min(1, Math.max(0, y - y0));
+      const i00 = (y0 * sw + x0) * 4;
+      const i10 = i00 + 4;
+      const i01 = i00 + sw * 4;
+      const i11 = i01 + 4;
+      const o = (v * ow + u) * 4;
+      for (let c = 0; c < 3; c++) {
+        const top = src[i00 + c] * (1 - fx) + src[i10 + c] * fx;
+        const bottom = src[i01 + c] * (1 - fx) + src[i11 + c] * fx;
+        out.data[o + c] = top * (1 - fy) + bottom * fy;
+      }
+      out.data[o + 3] = 255;
+    }
+  }
+  outCtx.putImageData(out, 0, 0);
+  return output;
+};
+
+// Stretches brightness so the darkest 1% become black and the brightest 1% white,
+// which lifts grey paper and faint print from dim or yellowed photos.
+export const enhanceContrast = (canvas: HTMLCanvasElement) => {
+  const ctx = context2d(canvas);
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+  const pixels = canvas.width * canvas.height;
+  const gray = toGray(data, pixels);
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+
+  const cutoff = pixels * 0.01;
+  let low = 0;
+  let high = 255;
+  for (let acc = 0; low < 255 && acc + histogram[low] <= cutoff; low++) acc += histogram[low];
+  for (let acc = 0; high > 0 && acc + histogram[high] <= cutoff; high--) acc += histogram[high];
+  if (high - low < 16) return;
+
+  const range = high - low;
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      data[i + c] = ((data[i + c] - low) * 255) / range;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+// Full pipeline from a captured frame to the base64 JPEG used for analysis.
+export const processPageImage = (source: HTMLCanvasElement, quad: Quad, enhance: boolean): string => {
+  const page = warpPerspective(source, quad);
+  if (enhance) enhanceContrast(page);
+  return page.toDataURL('image/jpeg', 0.85).split(',')[1];
+};
+
+export interface PageSplit {
+  // A photo of an open book or a single page set in two columns
+  kind: 'spread' | 'columns';
+  // Horizontal position of the gutter, 0..1
+  position: number;
+}
+
+const SPLIT_DETECT_WIDTH = 400;
+const SPLIT_SEARCH_RANGE = [0.3, 0.7];
+// Columns darker than this are the book fold's shadow, not print
+const SHADOW_DENSITY = 0.5;
+const MIN_TEXT_DENSITY = 0.02;
+const MAX_GUTTER_RATIO = 0.2;
+const MIN_GUTTER_WIDTH = 0.015;
+
+export const loadCanvas = (base64: string): Promise<HTMLCanvasElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = createCanvas(img.naturalWidth, img.naturalHeight);
+      context2d(canvas).drawImage(img, 0, 0);
+      resolve(canvas);
+    };
+    img.onerror = () => reject(new Error("Bild konnte nicht geladen werden."));
+    img.src = `data:image/jpeg;base64,${base64}`;
+  });
+};
+
+// Looks for a blank vertical band near the middle with text on both sides. The fold shadow of a
+// spread counts as blank, since print never covers most of a column.
+export const detectSplit = (canvas: HTMLCanvasElement): PageSplit | null => {
+  const small = drawScaled(canvas, canvas.width, canvas.height, SPLIT_DETECT_WIDTH);
+  const w = small.width;
+  const h = small.height;
+  const gray = toGray(context2d(small).getImageData(0, 0, w, h).data, w * h);
+  const threshold = otsuThreshold(gray);
+
+  // Share of dark pixels per column, ignoring the top and bottom margins with headers and page numbers
+  const top = Math.floor(h * 0.1);
+  const bottom = Math.ceil(h * 0.9);
+  const density = Array.from({ length: w }, (_, x) => {
+    let ink = 0;
+    for (let y = top; y < bottom; y++) {
+      if (gray[y * w + x] < threshold) ink++;
+    }
+    const share = ink / (bottom - top);
+    return share > SHADOW_DENSITY ? 0 : share;
+  });
+  const smooth = density.map((_, x) => {
+    const window = density.slice(Math.max(0, x - 2), x + 3);
+    return window.reduce((a, b) => a + b, 0) / window.length;
+  });
+
+  const from = Math.floor(w * SPLIT_SEARCH_RANGE[0]);
+  const to = Math.ceil(w * SPLIT_SEARCH_RANGE[1]);
+  let gutter = from;
+  for (let x = from; x < to; x++) {
+    if (smooth[x] < smooth[gutter]) gutter = x;
+  }
+
+  const mean = (start: number, end: number) => {
+    const values = smooth.slice(start, end);
+    return values.reduce((a, b) => a + b, 0) / Math.max(1, values.length);
+  };
+  const left = mean(Math.floor(w * 0.1), from);
+  const right = mean(to, Math.ceil(w * 0.9));
+  if (left < MIN_TEXT_DENSITY || right < MIN_TEXT_DENSITY) return null;
+  const limit = Math.min(left, right) * MAX_GUTTER_RATIO;
+  if (smooth[gutter] > limit) return null;
+
+  // Center of the whole blank band, not just its emptiest column
+  let start = gutter;
+  let end = gutter;
+  while (start > 0 && smooth[start - 1] <= limit) start--;
+  while (end < w - 1 && smooth[end + 1] <= limit) end++;
+  if ((end - start + 1) / w < MIN_GUTTER_WIDTH) return null;
+
+  return {
+    kind: canvas.width > canvas.height ? 'spread' : 'columns',
+    position: (start + end + 1) / 2 / w
+  };
+};
+
+// Cuts the image at the given position into a left and a right part.
+export const splitCanvas = (canvas: HTMLCanvasElement, position: number): [string, string] => {
+  const cut = Math.round(canvas.width * position);
+  return [[0, cut], [cut, canvas.width - cut]].map(([x, width]) => {
+    const part = createCanvas(width, canvas.height);
+    context2d(part).drawImage(canvas, x, 0, width, canvas.height, 0, 0, width, canvas.height);
+    return part.toDataURL('image/jpeg', 0.85).split(',')[1];
+  }) as [string, string];
+};
@@ -2,6 +2,7 @@
 import { initializeApp } from "firebase/app";
 import { getFirestore } from 'firebase/firestore';
 import { getAuth } from 'firebase/auth'; // Import getAuth
+import { getStorage } from 'firebase/storage';
 import { getAnalytics } from "firebase/analytics";
 
 // NOTE: Replace these with your actual Firebase project configuration
@@ -28,5 +29,6 @@ if (typeof window !== 'undefined') {
 
 const db = getFirestore(app);
 const auth = getAuth(app); // Initialize Firebase Auth
+const storage = getStorage(app);
 
-export { db, auth };
+export { db, auth, storage };
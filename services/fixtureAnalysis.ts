@@ -0,0 +1,69 @@
+import { PageAnalysisResult } from "../types";
+
+// Bundled sample page replayed by the fixture provider. Lets the reading flow be tested without any API calls.
+export const SAMPLE_PAGE_ANALYSIS: PageAnalysisResult = {
+  sentences: [
+    {
+      original: "Aquella mañana, Lucía se levantó muy temprano.",
+      translation: "An jenem Morgen stand Lucía sehr früh auf.",
+      words: [
+        { word: "Aquella", type: "word", translation: "jene", explanation: "Demonstrativbegleiter für weit entfernte (auch zeitlich) Dinge, feminin Singular.", category: "function", baseForm: "aquel" },
+        { word: " ", type: "punctuation" },
+        { word: "mañana", type: "word", translation: "Morgen", explanation: "Feminines Nomen. 'la mañana' = der Morgen, 'mañana' als Adverb = morgen.", category: "noun", baseForm: "mañana" },
+        { word: ", ", type: "punctuation" },
+        { word: "Lucía", type: "word", translation: "Lucía", explanation: "Eigenname.", category: "noun", baseForm: "Lucía" },
+        { word: " ", type: "punctuation" },
+        {
+          word: "se levantó",
+          type: "word",
+          translation: "stand auf",
+          literalTranslation: "hob sich",
+          explanation: "Reflexives Verb 'levantarse' im Indefinido.",
+          category: "verb",
+          baseForm: "levantarse",
+          tense: "Präteritum (Indefinido)",
+          person: "3. Pers. Sing.",
+          subWords: [
+            { word: "se", type: "word", translation: "sich", explanation: "Reflexivpronomen, 3. Person.", category: "function", baseForm: "se" },
+            { word: "levantó", type: "word", translation: "hob", explanation: "Indefinido von 'levantar'.", category: "verb", baseForm: "levantar", tense: "Präteritum (Indefinido)", person: "3. Pers. Sing." }
+          ]
+        },
+        { word: " ", type: "punctuation" },
+        { word: "muy", type: "word", translation: "sehr", explanation: "Adverb zur Verstärkung.", category: "function", baseForm: "muy" },
+        { word: " ", type: "punctuation" },
+        { word: "temprano", type: "word", translation: "früh", explanation: "Adverb der Zeit.", category: "adjective", baseForm: "temprano" },
+        { word: ".", type: "punctuation" }
+      ]
+    },
+    {
+      original: "Tenía que tomar el tren de las siete.",
+      translation: "Sie musste den Zug um sieben nehmen.",
+      words: [
+        {
+          word: "Tenía que",
+          type: "word",
+          translation: "musste",
+          literalTranslation: "hatte zu",
+          explanation: "'tener que' + Infinitiv drückt eine Verpflichtung aus.",
+          category: "verb",
+          baseForm: "tener que",
+          tense: "Imperfekt",
+          person: "3. Pers. Sing.",
+          subWords: [
+            { word: "Tenía", type: "word", translation: "hatte", explanation: "Imperfekt von 'tener'.", category: "verb", baseForm: "tener", tense: "Imperfekt", person: "3. Pers. Sing." },
+            { word: "que", type: "word", translation: "zu", explanation: "Teil der Konstruktion 'tener que'.", category: "function", baseForm: "que" }
+          ]
+        },
+        { word: " ", type: "punctuation" },
+        { word: "tomar", type: "word", translation: "nehmen", explanation: "Infinitiv nach 'tener que'.", category: "verb", baseForm: "tomar", tense: "Infinitiv" },
+        { word: " ", type: "punctuation" },
+        { word: "el", type: "word", translation: "den", explanation: "Bestimmter Artikel, maskulin Singular.", category: "function", baseForm: "el" },
+        { word: " ", type: "punctuation" },
+        { word: "tren", type: "word", translation: "Zug", explanation: "Maskulines Nomen.", category: "noun", baseForm: "tren" },
+        { word: " ", type: "punctuation" },
+        { word: "de las siete", type: "word", translation: "um sieben", literalTranslation: "von den sieben", explanation: "Uhrzeitangabe; 'las' bezieht sich auf 'las horas'.", category: "function" },
+        { word: ".", type: "punctuation" }
+      ]
+    }
+  ]
+};
@@ -0,0 +1,74 @@
+// A hand-curated list of about 500 very common Spanish words, used to keep everyday words out of the
+// collection when the saving policy asks for it. The order is only approximate: the word forms roughly
+// follow published corpus frequency lists, base forms and everyday vocabulary were added by hand. The
+// top-N cut-offs are therefore rough bands, not exact frequency ranks.
+
+export const FREQUENCY_LIST_SIZES = [100, 250, 500];
+
+const COMMON_FORMS = `
+de la que el en y a los se del las un por con no una su para es al lo como más o pero sus le ha me si sin sobre
+este ya entre cuando todo esta ser son dos también fue había era muy años hasta desde está mi porque qué sólo han
+yo hay vez puede todos así nos ni parte tiene él uno donde bien tiempo mismo ese ahora cada e vida otro después te
+otros aunque esa eso hace otra gobierno tan durante siempre día tanto ella tres sí dijo sido gran país según menos
+año antes estado contra sino forma caso nada hacer general estaba poco estos presidente mayor ante unos les algo
+hacia casa ellos ayer hecho primera mucho mientras además quien momento millones esto hombre están pues hoy
+lugar nacional trabajo otras mejor nuevo decir algunos entonces todas días debe política cómo casi toda tal
+luego pasado primer medio va estas sea tenía nunca poder aquí ver veces embargo partido personas grupo cuenta pueden
+tienen misma nueva cual fueron mujer frente tras cosas fin ciudad he social manera tener sistema será historia
+muchos tipo cuatro dentro nuestro punto dice ello cualquier noche aún agua parece haber situación fuera bajo
+grandes nuestra ejemplo acuerdo habían usted estados hizo nadie países horas posible tarde ley importante guerra
+desarrollo proceso realidad sentido lado mí tu cambio allí mano eran estar número sociedad unas centro padre
+gente final relación cuerpo obra incluso través último madre mis modo problema cinco hombres información ojos
+muerte nombre algunas público mujeres siglo todavía meses mañana esos nosotros hora muchas pueblo alguna dar problemas
+don da tú derecho verdad unidos podría sería junto cabeza aquel cuanto tierra equipo segundo director dicho
+cierto casos manos nivel podía familia largo partir falta llegar propio ministro cosa primero seguridad hemos mal trata
+algún tuvo respecto semana varios real sé voz paso señor mil quienes proyecto mercado mundial conocer
+`.trim().split(/\s+/);
+
+// Everyday vocabulary missing from the corpus part above
+const EVERYDAY_WORDS = `
+palabra amigo libro calle escuela mesa puerta niño hijo hermano coche dinero mundo lengua pronto quizás
+demasiado bastante apenas juntos cerca lejos arriba abajo delante detrás hermoso rápido lento caliente frío
+amor miedo razón idea pregunta respuesta viaje comida
+`.trim().split(/\s+/);
+
+const BASE_LEMMAS = `
+ser estar haber tener hacer poder decir ir ver dar saber querer llegar pasar deber poner parecer quedar creer hablar
+llevar dejar seguir encontrar llamar venir pensar salir volver tomar conocer vivir sentir tratar mirar contar empezar
+esperar buscar existir entrar trabajar escribir perder producir ocurrir entender pedir recibir recordar terminar permitir
+aparecer conseguir comenzar servir sacar necesitar mantener resultar leer caer cambiar presentar crear abrir considerar
+oír acabar convertir ganar formar traer partir morir aceptar realizar suponer comprender lograr explicar preguntar tocar
+reconocer estudiar alcanzar nacer dirigir correr utilizar pagar ayudar gustar jugar escuchar cumplir ofrecer descubrir
+levantar intentar usar decidir repetir olvidar valer comer mostrar ocupar mover continuar suceder fijar referir acercar
+dedicar aprender comprar subir evitar interesar cerrar echar responder sufrir importar obtener observar indicar imaginar
+desaparecer preparar mandar entregar actuar
+bueno grande nuevo primero último mismo otro todo mucho poco alto largo propio solo mayor pequeño joven viejo claro
+cierto general posible social público político importante difícil fácil distinto único feliz blanco negro rojo libre
+`.trim().split(/\s+/);
+
+// Base forms of the commonest verbs follow the first 200 forms, so their other inflections match
+// through the analysis' base form even with a small cut-off. Repeated words keep their first position.
+const RANKED = Array.from(new Set([
+  ...COMMON_FORMS.slice(0, 200),
+  ...BASE_LEMMAS.slice(0, 60),
+  ...COMMON_FORMS.slice(200),
+  ...BASE_LEMMAS.slice(60),
+  ...EVERYDAY_WORDS
+]));
+
+const rankSets = new Map<number, Set<string>>();
+
+const topWords = (topN: number): Set<string> => {
+  let set = rankSets.get(topN);
+  if (!set) {
+    set = new Set(RANKED.slice(0, topN));
+    rankSets.set(topN, set);
+  }
+  return set;
+};
+
+// Checks the lemma as well as the surface form, so "es" and "ser" both count as frequent
+export const isFrequentWord = (entry: { word: string; baseForm?: string }, topN: number): boolean => {
+  const words = topWords(topN);
+  return [entry.word, entry.baseForm].some(w => !!w && words.has(w.trim().toLowerCase()));
+};
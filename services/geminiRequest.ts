@@ -0,0 +1,132 @@
+import { ApiError } from "@google/genai";
+
+// Shared wrapper for every Gemini call: a timeout per attempt, exponential backoff on rate limits
+// and server errors, cancellation through an AbortSignal and errors with a user-facing German message.
+
+export type GeminiErrorKind = 'missing-key' | 'invalid-key' | 'quota' | 'rate-limit' | 'server' | 'network' | 'timeout' | 'cancelled' | 'unknown';
+
+const MESSAGES: Record<GeminiErrorKind, string> = {
+  'missing-key': "Kein API Key gefunden. Bitte geben Sie einen in den Einstellungen ein.",
+  'invalid-key': "Der API Key ist ungültig. Bitte prüfe ihn in den Einstellungen.",
+  'quota': "Das Kontingent deines API Keys ist aufgebraucht. Versuche es später erneut.",
+  'rate-limit': "Zu viele Anfragen in kurzer Zeit. Bitte warte einen Moment.",
+  'server': "Der Gemini-Dienst ist gerade nicht erreichbar. Bitte versuche es später erneut.",
+  'network': "Keine Verbindung zum Server. Bitte prüfe deine Internetverbindung.",
+  'timeout': "Die Anfrage hat zu lange gedauert. Bitte versuche es erneut.",
+  'cancelled': "Die Anfrage wurde abgebrochen.",
+  'unknown': "Bei der Anfrage an Gemini ist ein Fehler aufgetreten."
+};
+
+export class GeminiRequestError extends Error {
+  readonly kind: GeminiErrorKind;
+  readonly status?: number;
+
+  constructor(kind: GeminiErrorKind, status?: number, cause?: unknown) {
+    super(MESSAGES[kind], cause !== undefined ? { cause } : undefined);
+    this.name = 'GeminiRequestError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+export interface GeminiRequestOptions {
+  timeoutMs?: number;
+  // Additional attempts after the first one, only for rate limits, server and network errors
+  retries?: number;
+  signal?: AbortSignal;
+}
+
+export const REQUEST_TIMEOUTS = {
+  analysis: 120000,
+  speech: 30000,
+  text: 20000
+};
+
+const DEFAULT_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+const RETRYABLE: GeminiErrorKind[] = ['rate-limit', 'server', 'network'];
+
+export const isCancelled = (error: unknown) => error instanceof GeminiRequestError && error.kind === 'cancelled';
+
+const classify = (error: unknown): GeminiRequestError => {
+  if (error instanceof GeminiRequestError) return error;
+  if (error instanceof ApiError) {
+    const message = error.message || '';
+    if (error.status === 401 || error.status === 403 || /API key not valid|API_KEY_INVALID/i.test(message)) {
+      return new GeminiRequestError('invalid-key', error.status, error);
+    }
+    if (error.status === 429) {
+      // Daily or monthly limits do not recover within a few seconds
+      const exhausted = /quota|per ?day|billing/i.test(message);
+      return new GeminiRequestError(exhausted ? 'quota' : 'rate-limit', error.status, error);
+    }
+    if (error.status >= 500) return new GeminiRequestError('server', error.status, error);
+    return new GeminiRequestError('unknown', error.status, error);
+  }
+  // fetch rejects with a TypeError when the network is down
+  if (error instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+    return new GeminiRequestError('network', undefined, error);
+  }
+  return new GeminiRequestError('unknown', undefined, error);
+};
+
+// Gemini's 429 responses contain a suggested delay like "retryDelay": "17s"
+const suggestedDelay = (error: GeminiRequestError): number | null => {
+  const match = /retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(error.cause instanceof Error ? error.cause.message : '');
+  return match ? Number(match[1]) * 1000 : null;
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GeminiRequestError('cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Runs one attempt with its own timeout; the attempt's signal also fires when the caller cancels.
+const attempt = async <T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  try {
+    return await run(controller.signal);
+  } catch (error) {
+    if (signal?.aborted) throw new GeminiRequestError('cancelled', undefined, error);
+    if (timedOut) throw new GeminiRequestError('timeout', undefined, error);
+    throw classify(error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+};
+
+export const geminiRequest = async <T>(run: (signal: AbortSignal) => Promise<T>, options: GeminiRequestOptions = {}): Promise<T> => {
+  const { timeoutMs = REQUEST_TIMEOUTS.text, retries = DEFAULT_RETRIES, signal } = options;
+  for (let attemptNo = 0; ; attemptNo++) {
+    if (signal?.aborted) throw new GeminiRequestError('cancelled');
+    try {
+      return await attempt(run, timeoutMs, signal);
+    } catch (error) {
+      const requestError = classify(error);
+      if (!RETRYABLE.includes(requestError.kind) || attemptNo >= retries) throw requestError;
+      const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attemptNo) * (0.75 + Math.random() * 0.5);
+      const delay = Math.min(MAX_DELAY_MS, Math.max(backoff, suggestedDelay(requestError) || 0));
+      console.warn(`Gemini request failed (${requestError.kind}), retrying in ${Math.round(delay)} ms`);
+      await sleep(delay, signal);
+    }
+  }
+};
@@ -1,6 +1,10 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
+import { GoogleGenAI, Type, Modality, Part } from "@google/genai";
 import { PageAnalysisResult } from "../types";
 import { getSessionApiKey } from "./storageService";
+import { ANALYSIS_SYSTEM_INSTRUCTION, IMAGE_ANALYSIS_PROMPT, TEXT_ANALYSIS_PROMPT } from "./analysisPrompt";
+import { parseAnalysisResponse } from "./analysisValidation";
+import { geminiRequest, GeminiRequestError, REQUEST_TIMEOUTS } from "./geminiRequest";
+import type { AnalysisProvider } from "./analysisService";
 
 function encode(bytes: Uint8Array) {
   let binary = '';
@@ -21,24 +25,11 @@ function decode(base64: string) {
   return bytes;
 }
 
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
+const boundingBoxSchema = {
+  type: Type.ARRAY,
+  items: { type: Type.INTEGER },
+  description: "[ymin, xmin, ymax, xmax] normalized to 0-1000."
+};
 
 const wordProperties = {
   word: { type: Type.STRING, description: "The word, phrase, punctuation, or space." },
@@ -53,7 +44,8 @@ const wordProperties = {
   },
   baseForm: { type: Type.STRING, description: "Lemma/Infinitiv (ALWAYS required for verbs)." },
   tense: { type: Type.STRING, description: "For verbs: The grammatical time (e.g. 'Präteritum', 'Futur I')." },
-  person: { type: Type.STRING, description: "For verbs: The grammatical person (e.g. '3. Pers. Sing.')." }
+  person: { type: Type.STRING, description: "For verbs: The grammatical person (e.g. '3. Pers. Sing.')." },
+  box: { ...boundingBoxSchema, description: "Images only: position of the word as [ymin, xmin, ymax, xmax], 0-1000." }
 };
 
 const analysisSchema = {
@@ -66,6 +58,11 @@ const analysisSchema = {
         properties: {
           original: { type: Type.STRING, description: "The EXACT verbatim sentence from the image. No omissions." },
           translation: { type: Type.STRING, description: "Natural German translation of the full sentence." },
+          boxes: {
+            type: Type.ARRAY,
+            description: "Images only: one box per printed line the sentence covers.",
+            items: boundingBoxSchema
+          },
           words: {
             type: Type.ARRAY,
             items: {
@@ -93,79 +90,97 @@ const analysisSchema = {
   required: ["sentences"]
 };
 
+const getApiKey = (): string | undefined => getSessionApiKey() || process.env.API_KEY;
+
+export const hasGeminiApiKey = () => !!getApiKey();
+
 const getAI = () => {
-    const sessionKey = getSessionApiKey();
-    const envKey = process.env.API_KEY;
-    const apiKey = sessionKey || envKey;
+    const apiKey = getApiKey();
     if (!apiKey) {
-        throw new Error("Kein API Key gefunden. Bitte geben Sie einen in den Einstellungen ein.");
+        throw new GeminiRequestError('missing-key');
     }
     return new GoogleGenAI({ apiKey });
 }
 
-export const analyzeImage = async (base64Image: string): Promise<PageAnalysisResult> => {
+const generateAnalysis = async (parts: Part[], model: string, signal?: AbortSignal): Promise<PageAnalysisResult> => {
   const ai = getAI();
-  const prompt = `
-    Analyze the attached Spanish book page. You are an expert Spanish teacher.
-    CRITICAL INSTRUCTIONS:
-    1. COMPLETE TRANSCRIPTION: You MUST process EVERY SINGLE SENTENCE visible on the page.
-    2. PHRASE BINDING & BREAKDOWN: 
-       - If you find a phrase (idioms like "tener que", reflexive verbs like "se levantó", compound tenses like "ha comido"), combine them into a SINGLE 'word' object first.
-       - IMPORTANT: For these combined phrases, you MUST also populate the 'subWords' array with the analysis of the individual words.
-    3. DETAILED VERB ANALYSIS: 
-       - For every verb, you MUST provide the 'baseForm' (Infinitive).
-       - You MUST provide the 'tense' (Zeitform) and 'person' (Person) for verbs.
-    4. LITERAL TRANSLATION: If a phrase's meaning differs from the literal words, provide the literal translation in 'literalTranslation'.
-    5. Provide all results in German.
-  `;
-
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview', 
-      contents: {
-        parts: [
-          { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: analysisSchema,
-        systemInstruction: "You are a professional Spanish-to-German translator. Extract all text and provide deep linguistic analysis including grammar details and literal translations.",
-      }
-    });
-    const text = response.text;
+    const text = await geminiRequest(async abortSignal => {
+      const response = await ai.models.generateContent({
+        model: model || 'gemini-3-flash-preview',
+        contents: { parts },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: analysisSchema,
+          systemInstruction: ANALYSIS_SYSTEM_INSTRUCTION,
+          abortSignal
+        }
+      });
+      return response.text;
+    }, { timeoutMs: REQUEST_TIMEOUTS.analysis, signal });
     if (!text) throw new Error("No response text from Gemini.");
-    return JSON.parse(text) as PageAnalysisResult;
+    return parseAnalysisResponse(text);
   } catch (error) {
     console.error("Analysis failed:", error);
     throw error;
   }
 };
 
-export const generateSpeech = async (text: string): Promise<void> => {
+export const geminiAnalysisProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  description: 'Cloud-Analyse über deinen Gemini API Key.',
+  analyzeImage: (base64Image, settings, signal) => generateAnalysis([
+    { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
+    { text: IMAGE_ANALYSIS_PROMPT }
+  ], settings.geminiModel, signal),
+  analyzeText: (text, settings, signal) => generateAnalysis([
+    { text: TEXT_ANALYSIS_PROMPT + text }
+  ], settings.geminiModel, signal)
+};
+
+// Writes down what was said in a recording, without correcting mistakes
+export const transcribeSpeech = async (base64Audio: string, mimeType: string): Promise<string> => {
+  const ai = getAI();
+  try {
+    const text = await geminiRequest(async abortSignal => {
+      const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: { parts: [
+          { inlineData: { mimeType, data: base64Audio } },
+          { text: "Transkribiere diese spanische Aufnahme wortgetreu. Korrigiere keine Aussprache- oder Grammatikfehler, sondern schreibe genau die Wörter auf, die zu hören sind. Antworte nur mit dem Text." }
+        ] },
+        config: { abortSignal }
+      });
+      return response.text;
+    }, { timeoutMs: REQUEST_TIMEOUTS.speech });
+    return (text || '').trim();
+  } catch (error) {
+    console.error("Transcription failed:", error);
+    throw error;
+  }
+};
+
+// Returns raw 16-bit mono PCM at 24 kHz; playback happens in audioPlayer.ts
+export const generateSpeech = async (text: string, voice: string, signal?: AbortSignal): Promise<Uint8Array> => {
   const ai = getAI();
   try {
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: text }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-              voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } },
+    const base64Audio = await geminiRequest(async abortSignal => {
+      const response = await ai.models.generateContent({
+          model: "gemini-2.5-flash-preview-tts",
+          contents: [{ parts: [{ text: text }] }],
+          config: {
+            responseModalities: [Modality.AUDIO],
+            speechConfig: {
+                voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+            },
+            abortSignal
           },
-        },
-      });
-      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (!base64Audio) throw new Error("No audio data returned");
-      const outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({sampleRate: 24000});
-      const outputNode = outputAudioContext.createGain();
-      outputNode.connect(outputAudioContext.destination);
-      const audioBuffer = await decodeAudioData(decode(base64Audio), outputAudioContext, 24000, 1);
-      const source = outputAudioContext.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(outputNode);
-      source.start();
+        });
+      return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    }, { timeoutMs: REQUEST_TIMEOUTS.speech, signal });
+    if (!base64Audio) throw new Error("No audio data returned");
+    return decode(base64Audio);
   } catch (error) {
       console.error("TTS failed:", error);
       throw error;
@@ -174,7 +189,7 @@ export const generateSpeech = async (text: string): Promise<void> => {
 
 export const generateExampleSentence = async (word: string, category: string): Promise<{ sentence: string, translation: string }> => {
     const ai = getAI();
-    try {
+    const text = await geminiRequest(async abortSignal => {
         const response = await ai.models.generateContent({
             model: 'gemini-3-flash-preview',
             contents: `Generiere einen einfachen spanischen Beispielsatz für das Wort "${word}" (${category}). 
@@ -188,13 +203,13 @@ export const generateExampleSentence = async (word: string, category: string): P
                         translation: { type: Type.STRING }
                     },
                     required: ["sentence", "translation"]
-                }
+                },
+                abortSignal
             }
         });
-        const text = response.text;
-        return JSON.parse(text || "{}");
-    } catch (e) {
-        console.error(e);
-        return { sentence: "Fehler beim Generieren.", translation: "" };
-    }
-}
\ No newline at end of file
+        return response.text;
+    }, { timeoutMs: REQUEST_TIMEOUTS.text });
+    const parsed = JSON.parse(text || "{}");
+    if (typeof parsed.sentence !== 'string' || !parsed.sentence) throw new Error("Leere Antwort beim Generieren des Beispielsatzes.");
+    return { sentence: parsed.sentence, translation: typeof parsed.translation === 'string' ? parsed.translation : '' };
+}
@@ -0,0 +1,156 @@
+import { Book, BookPage, VocabItem, VocabSource, DictationRecord } from '../types';
+import { GUEST_SCOPE, getAllRecords, putRecords, clearRecords } from './localDb';
+import { OutboxEntry, enqueue, waitForInitialSync, sanitizeData } from './syncService';
+import { importLegacyLocalStorage } from './storageService';
+import { externalizePageImage, copyImage } from './pageImageStore';
+import { lemmaKey } from './vocabLemmas';
+
+// Moves everything a guest collected into a freshly signed-in account. The guest scope is only
+// cleared after the data has been written to the account's local store and outbox.
+
+export interface GuestDataSummary {
+  books: number;
+  pages: number;
+  vocab: number;
+}
+
+const pageText = (page: BookPage) => page.analysis.sentences.map(s => s.original).join(' ').trim();
+const bookKey = (book: Book) => `${book.title.trim().toLowerCase()}|${(book.author || '').trim().toLowerCase()}`;
+
+export const getGuestDataSummary = async (): Promise<GuestDataSummary | null> => {
+  await importLegacyLocalStorage();
+  const [books, pages, vocab] = await Promise.all([
+    getAllRecords<Book>(GUEST_SCOPE, 'books'),
+    getAllRecords<BookPage>(GUEST_SCOPE, 'pages'),
+    getAllRecords<VocabItem>(GUEST_SCOPE, 'vocab')
+  ]);
+  if (books.length === 0 && vocab.length === 0) return null;
+  return { books: books.length, pages: pages.length, vocab: vocab.length };
+};
+
+// Returns how much was actually added; vocab and pages the account already has are skipped.
+export const migrateGuestData = async (uid: string): Promise<GuestDataSummary> => {
+  // Dedup needs the account's server state in the local store first
+  await waitForInitialSync(uid);
+
+  const [guestBooks, guestPages, guestVocab, guestDictation, accountBooks, accountPages, accountVocab, accountDictation] = await Promise.all([
+    getAllRecords<Book>(GUEST_SCOPE, 'books'),
+    getAllRecords<BookPage>(GUEST_SCOPE, 'pages'),
+    getAllRecords<VocabItem>(GUEST_SCOPE, 'vocab'),
+    getAllRecords<DictationRecord>(GUEST_SCOPE, 'dictation'),
+    getAllRecords<Book>(uid, 'books'),
+    getAllRecords<BookPage>(uid, 'pages'),
+    getAllRecords<VocabItem>(uid, 'vocab'),
+    getAllRecords<DictationRecord>(uid, 'dictation')
+  ]);
+
+  const outbox: Array<Omit<OutboxEntry, 'seq' | 'createdAt'>> = [];
+
+  const existingLemmas = new Set(accountVocab.map(lemmaKey));
+  const newVocab = guestVocab.filter(item => {
+    const key = lemmaKey(item);
+    if (existingLemmas.has(key)) return false;
+    existingLemmas.add(key);
+    return true;
+  });
+
+  // Books with the same title and author are merged; their pages are appended
+  const booksByKey = new Map(accountBooks.map(b => [bookKey(b), b]));
+  const booksToSave: Book[] = [];
+  const pagesToSave: BookPage[] = [];
+  let createdBooks = 0;
+  // Where vocab provenance has to point after merging: merged books and pages already in the account
+  const bookIds = new Map<string, string>();
+  const pageIds = new Map<string, string>();
+
+  guestBooks.forEach(guestBook => {
+    const target = booksByKey.get(bookKey(guestBook));
+    const existingPages = target ? [...accountPages, ...pagesToSave].filter(p => p.bookId === target.id) : [];
+    const guestBookPages = guestPages
+      .filter(p => p.bookId === guestBook.id)
+      .sort((a, b) => a.pageNumber - b.pageNumber);
+    guestBookPages.forEach(p => {
+      const known = existingPages.find(existing => pageText(existing) === pageText(p));
+      if (known) pageIds.set(p.id, known.id);
+    });
+    const pages = guestBookPages.filter(p => !pageIds.has(p.id));
+
+    const book: Book = target
+      ? { ...target, pageCount: (target.pageCount || 0) + pages.length }
+      : { ...guestBook, pageCount: pages.length };
+    const movedPages = pages.map((p, idx) => ({ ...p, bookId: book.id, pageNumber: existingPages.length + idx + 1 }));
+
+    if (!target) {
+      createdBooks++;
+      const { id, ...bookData } = book;
+      outbox.push({ op: 'set', path: ['books', id], data: sanitizeData(bookData) });
+    } else if (movedPages.length > 0) {
+      outbox.push({ op: 'update', path: ['books', book.id], increments: { pageCount: movedPages.length } });
+    }
+    bookIds.set(guestBook.id, book.id);
+    booksToSave.push(book);
+    pagesToSave.push(...movedPages);
+    booksByKey.set(bookKey(book), book);
+  });
+
+  const remapSource = (source: VocabSource): VocabSource => ({
+    ...source,
+    bookId: bookIds.get(source.bookId) || source.bookId,
+    pageId: pageIds.get(source.pageId) || source.pageId
+  });
+  const movedVocab = newVocab.map(item => {
+    const moved: VocabItem = { ...item };
+    if (item.source) moved.source = remapSource(item.source);
+    if (item.occurrences) moved.occurrences = item.occurrences.map(remapSource);
+    if (item.forms) moved.forms = item.forms.map(form => form.source ? { ...form, source: remapSource(form.source) } : form);
+    return moved;
+  });
+  movedVocab.forEach(item => outbox.push({ op: 'set', path: ['vocabulary', item.id], data: sanitizeData(item) }));
+
+  // Dictation records are keyed by sentence, so practice of the same sentence is combined
+  const accountRecords = new Map(accountDictation.map(r => [r.id, r]));
+  const movedDictation = guestDictation.map((record): DictationRecord => {
+    const existing = accountRecords.get(record.id);
+    if (!existing) return record;
+    const latest = record.lastPracticedAt > existing.lastPracticedAt ? record : existing;
+    return {
+      ...latest,
+      attempts: existing.attempts + record.attempts,
+      bestAccuracy: Math.max(existing.bestAccuracy, record.bestAccuracy)
+    };
+  });
+  movedDictation.forEach(({ id, ...recordData }) => outbox.push({ op: 'set', path: ['dictation', id], data: sanitizeData(recordData) }));
+
+  // Images move along with their pages; legacy inline images are stored as blobs first
+  const savedPages: BookPage[] = [];
+  for (const page of pagesToSave) {
+    const saved = page.image ? await externalizePageImage(uid, page) : page;
+    if (saved.imageRef && (page.image || await copyImage(GUEST_SCOPE, uid, saved.imageRef))) {
+      outbox.push({ op: 'upload', path: saved.imageRef.split('/') });
+    }
+    const { id, ...pageData } = saved;
+    outbox.push({ op: 'set', path: ['books', saved.bookId, 'pages', id], data: sanitizeData(pageData) });
+    savedPages.push(saved);
+  }
+
+  await putRecords(uid, 'vocab', movedVocab);
+  await putRecords(uid, 'books', booksToSave);
+  await putRecords(uid, 'pages', savedPages);
+  await putRecords(uid, 'dictation', movedDictation);
+  if (outbox.length > 0) await enqueue(uid, outbox);
+
+  await discardGuestData();
+  return {
+    books: createdBooks,
+    pages: pagesToSave.length,
+    vocab: newVocab.length
+  };
+};
+
+export const discardGuestData = async () => {
+  await clearRecords(GUEST_SCOPE, 'vocab');
+  await clearRecords(GUEST_SCOPE, 'books');
+  await clearRecords(GUEST_SCOPE, 'pages');
+  await clearRecords(GUEST_SCOPE, 'images');
+  await clearRecords(GUEST_SCOPE, 'dictation');
+};
@@ -0,0 +1,113 @@
+// Minimal promise wrapper around IndexedDB. Every scope (the guest or a signed-in user) gets its own
+// database, so switching accounts never mixes data and guest data stays available for migration.
+
+export const GUEST_SCOPE = 'guest';
+
+export type StoreName = 'vocab' | 'books' | 'pages' | 'outbox' | 'meta' | 'images' | 'dictation' | 'audio';
+
+const DB_PREFIX = 'spanish_assistant_';
+const DB_VERSION = 4;
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+const openDb = (scope: string): Promise<IDBDatabase> => {
+  const existing = connections.get(scope);
+  if (existing) return existing;
+
+  const connection = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_PREFIX + scope, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore('vocab', { keyPath: 'id' });
+        db.createObjectStore('books', { keyPath: 'id' });
+        const pages = db.createObjectStore('pages', { keyPath: 'id' });
+        pages.createIndex('bookId', 'bookId');
+        db.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true });
+        db.createObjectStore('meta');
+      }
+      if (event.oldVersion < 2) {
+        // Page images as Blobs, keyed by BookPage.imageRef
+        db.createObjectStore('images');
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore('dictation', { keyPath: 'id' });
+      }
+      if (event.oldVersion < 4) {
+        // Generated speech as raw PCM, keyed by voice and text
+        db.createObjectStore('audio');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      connections.delete(scope);
+      reject(request.error);
+    };
+  });
+  connections.set(scope, connection);
+  return connection;
+};
+
+// Runs fn inside a single transaction and resolves once it has committed.
+const withStore = async <T>(
+  scope: string,
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDb(scope);
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const getAllRecords = <T>(scope: string, storeName: StoreName): Promise<T[]> => {
+  return withStore<T[]>(scope, storeName, 'readonly', store => store.getAll());
+};
+
+export const getRecordsByIndex = <T>(scope: string, storeName: StoreName, index: string, value: IDBValidKey): Promise<T[]> => {
+  return withStore<T[]>(scope, storeName, 'readonly', store => store.index(index).getAll(value));
+};
+
+export const getAllKeys = (scope: string, storeName: StoreName): Promise<IDBValidKey[]> => {
+  return withStore<IDBValidKey[]>(scope, storeName, 'readonly', store => store.getAllKeys());
+};
+
+export const getRecord = <T>(scope: string, storeName: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  return withStore<T | undefined>(scope, storeName, 'readonly', store => store.get(key));
+};
+
+export const putRecords = <T>(scope: string, storeName: StoreName, records: T[], keys?: IDBValidKey[]): Promise<void> => {
+  return withStore<void>(scope, storeName, 'readwrite', store => {
+    records.forEach((record, idx) => {
+      if (keys) store.put(record, keys[idx]);
+      else store.put(record);
+    });
+  });
+};
+
+export const deleteRecords = (scope: string, storeName: StoreName, keys: IDBValidKey[]): Promise<void> => {
+  return withStore<void>(scope, storeName, 'readwrite', store => {
+    keys.forEach(key => store.delete(key));
+  });
+};
+
+export const clearRecords = (scope: string, storeName: StoreName): Promise<void> => {
+  return withStore<void>(scope, storeName, 'readwrite', store => { store.clear(); });
+};
+
+export const countRecords = (scope: string, storeName: StoreName): Promise<number> => {
+  return withStore<number>(scope, storeName, 'readonly', store => store.count());
+};
+
+export const getMeta = <T>(scope: string, key: string): Promise<T | undefined> => {
+  return getRecord<T>(scope, 'meta', key);
+};
+
+export const setMeta = <T>(scope: string, key: string, value: T): Promise<void> => {
+  return putRecords(scope, 'meta', [value], [key]);
+};
@@ -0,0 +1,131 @@
+import { collection, collectionGroup, documentId, getDocs, orderBy, query, startAt, endAt } from 'firebase/firestore';
+import { auth, db } from './firebase';
+import { Book, BookPage } from '../types';
+import { GUEST_SCOPE, getAllRecords, getAllKeys, getRecord, deleteRecords } from './localDb';
+import { OutboxEntry, enqueue, waitForInitialSync } from './syncService';
+
+// Storage report and cleanup of data left behind by earlier versions, which deleted books
+// without their pages (and page images) in Firestore and Storage.
+
+export interface BookStorageUsage {
+  bookId: string;
+  title: string;
+  pages: number;
+  dataBytes: number;  // page documents including thumbnails and legacy inline images
+  imageBytes: number; // full images in the local image store
+}
+
+export interface OrphanReport {
+  localPageIds: string[];
+  localImageRefs: string[];
+  remoteBookIds: string[]; // deleted books whose pages are still in Firestore
+  remotePages: number;
+  remoteImageRefs: string[];
+  remoteChecked: boolean;  // false for guests and while offline
+}
+
+const activeScope = async (): Promise<string> => {
+  const user = auth.currentUser;
+  if (!user) return GUEST_SCOPE;
+  await waitForInitialSync(user.uid);
+  return user.uid;
+};
+
+const jsonBytes = (value: unknown) => new Blob([JSON.stringify(value)]).size;
+
+export const getStorageUsage = async (): Promise<BookStorageUsage[]> => {
+  const scope = await activeScope();
+  const [books, pages] = await Promise.all([
+    getAllRecords<Book>(scope, 'books'),
+    getAllRecords<BookPage>(scope, 'pages')
+  ]);
+
+  const usage = await Promise.all(books.map(async book => {
+    const bookPages = pages.filter(p => p.bookId === book.id);
+    const images = await Promise.all(bookPages.map(p => p.imageRef ? getRecord<Blob>(scope, 'images', p.imageRef) : undefined));
+    return {
+      bookId: book.id,
+      title: book.title,
+      pages: bookPages.length,
+      dataBytes: bookPages.reduce((sum, p) => sum + jsonBytes(p), 0),
+      imageBytes: images.reduce((sum, blob) => sum + (blob?.size || 0), 0)
+    };
+  }));
+  return usage.sort((a, b) => (b.dataBytes + b.imageBytes) - (a.dataBytes + a.imageBytes));
+};
+
+// All page documents of the user across books, via a collection group query limited to the user's path.
+// Needs a security rule allowing the owner to read {path=**}/pages below users/{uid}.
+const fetchRemotePages = async (uid: string) => {
+  const userPath = `users/${uid}`;
+  const snapshot = await getDocs(query(
+    collectionGroup(db, 'pages'),
+    orderBy(documentId()),
+    startAt(userPath),
+    endAt(`${userPath}\uf8ff`)
+  ));
+  return snapshot.docs.map(d => ({ bookId: d.ref.parent.parent?.id || '', imageRef: d.data().imageRef as string | undefined }));
+};
+
+export const findOrphans = async (): Promise<OrphanReport> => {
+  const scope = await activeScope();
+  const [books, pages, imageKeys] = await Promise.all([
+    getAllRecords<Book>(scope, 'books'),
+    getAllRecords<BookPage>(scope, 'pages'),
+    getAllKeys(scope, 'images')
+  ]);
+  const bookIds = new Set(books.map(b => b.id));
+  const orphanPages = pages.filter(p => !bookIds.has(p.bookId));
+  const keptImageRefs = new Set(pages.filter(p => bookIds.has(p.bookId)).flatMap(p => p.imageRef ? [p.imageRef] : []));
+
+  const report: OrphanReport = {
+    localPageIds: orphanPages.map(p => p.id),
+    localImageRefs: imageKeys.map(String).filter(ref => !keptImageRefs.has(ref)),
+    remoteBookIds: [],
+    remotePages: 0,
+    remoteImageRefs: [],
+    remoteChecked: false
+  };
+  if (scope === GUEST_SCOPE || !navigator.onLine) return report;
+
+  let remoteBooks, remotePages;
+  try {
+    [remoteBooks, remotePages] = await Promise.all([
+      getDocs(collection(db, 'users', scope, 'books')),
+      fetchRemotePages(scope)
+    ]);
+  } catch (e) {
+    // Missing security rule for the collection group query, or the connection dropped
+    console.error("Remote orphan check failed", e);
+    return report;
+  }
+  // Books only known locally are still waiting in the outbox and not orphaned
+  remoteBooks.docs.forEach(d => bookIds.add(d.id));
+  const remoteOrphans = remotePages.filter(p => p.bookId && !bookIds.has(p.bookId));
+
+  return {
+    ...report,
+    remoteBookIds: Array.from(new Set(remoteOrphans.map(p => p.bookId))),
+    remotePages: remoteOrphans.length,
+    remoteImageRefs: remoteOrphans.flatMap(p => p.imageRef ? [p.imageRef] : []),
+    remoteChecked: true
+  };
+};
+
+export const purgeOrphans = async (report: OrphanReport) => {
+  const scope = await activeScope();
+  const localPages = (await Promise.all(report.localPageIds.map(id => getRecord<BookPage>(scope, 'pages', id))))
+    .filter((p): p is BookPage => !!p);
+  await deleteRecords(scope, 'pages', report.localPageIds);
+  await deleteRecords(scope, 'images', report.localImageRefs);
+  if (scope === GUEST_SCOPE) return;
+
+  // Pages orphaned locally may still exist on the server as well
+  const bookIds = new Set([...report.remoteBookIds, ...localPages.map(p => p.bookId)]);
+  const imageRefs = new Set([...report.remoteImageRefs, ...localPages.flatMap(p => p.imageRef ? [p.imageRef] : [])]);
+  const entries: Array<Omit<OutboxEntry, 'seq' | 'createdAt'>> = [
+    ...Array.from(bookIds).map(bookId => ({ op: 'deleteCollection' as const, path: ['books', bookId, 'pages'] })),
+    ...Array.from(imageRefs).map(ref => ({ op: 'deleteFile' as const, path: ref.split('/') }))
+  ];
+  if (entries.length > 0) await enqueue(scope, entries);
+};
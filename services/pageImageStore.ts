@@ -0,0 +1,77 @@
+import { ref, getBlob } from 'firebase/storage';
+import { storage } from './firebase';
+import { BookPage } from '../types';
+import { GUEST_SCOPE, getRecord, putRecords, deleteRecords } from './localDb';
+
+// Page images live as Blobs in the local image store; for signed-in users the outbox
+// additionally uploads them to Firebase Storage under users/{uid}/{imageRef}.
+// BookPage only keeps the reference and a small thumbnail.
+
+const THUMBNAIL_SIZE = 240;
+
+export const pageImageRef = (pageId: string) => `pages/${pageId}.jpg`;
+
+const base64ToBlob = async (base64: string): Promise<Blob> => {
+  const response = await fetch(`data:image/jpeg;base64,${base64}`);
+  return response.blob();
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const createThumbnail = (base64: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("Canvas not available"));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.6).split(',')[1]);
+    };
+    img.onerror = () => reject(new Error("Bild konnte nicht gelesen werden."));
+    img.src = `data:image/jpeg;base64,${base64}`;
+  });
+};
+
+// Stores the inline image of a page and returns the page with reference and thumbnail instead.
+// Replaced photos pass a fresh reference so devices that cached the old file load the new one.
+export const externalizePageImage = async (scope: string, page: BookPage, imageRef: string = pageImageRef(page.id)): Promise<BookPage> => {
+  if (!page.image) return page;
+  const { image, ...rest } = page;
+  await putRecords(scope, 'images', [await base64ToBlob(image)], [imageRef]);
+  return { ...rest, imageRef, thumbnail: await createThumbnail(image) };
+};
+
+export const copyImage = async (fromScope: string, toScope: string, imageRef: string): Promise<boolean> => {
+  const blob = await getRecord<Blob>(fromScope, 'images', imageRef);
+  if (!blob) return false;
+  await putRecords(toScope, 'images', [blob], [imageRef]);
+  return true;
+};
+
+// Full images are only fetched when needed; downloads are cached locally.
+export const loadImage = async (scope: string, imageRef: string): Promise<string | null> => {
+  let blob = await getRecord<Blob>(scope, 'images', imageRef);
+  if (!blob && scope !== GUEST_SCOPE) {
+    blob = await getBlob(ref(storage, `users/${scope}/${imageRef}`));
+    await putRecords(scope, 'images', [blob], [imageRef]);
+  }
+  return blob ? blobToBase64(blob) : null;
+};
+
+export const removeImages = (scope: string, imageRefs: string[]) => {
+  return deleteRecords(scope, 'images', imageRefs);
+};
@@ -0,0 +1,142 @@
+import { hasGeminiApiKey, transcribeSpeech } from './geminiService';
+import { getSpeechSettings } from './storageService';
+import { DiffToken, diffWords, diffAccuracy } from './dictation';
+
+// Records the learner reading a text aloud and turns it into a transcript. With a Gemini key the
+// audio is recorded and transcribed by Gemini; otherwise the browser's speech recognition listens.
+
+export interface PronunciationRecording {
+  // Ends the recording and resolves with what was understood
+  stop: () => Promise<string>;
+  cancel: () => void;
+}
+
+export interface PronunciationResult {
+  transcript: string;
+  tokens: DiffToken[];
+  accuracy: number;
+}
+
+// Opus in Ogg is supported by Gemini; browsers without it fall back to their default container
+const RECORDING_TYPES = ['audio/ogg;codecs=opus', 'audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+// The Web Speech recognition API is not part of the DOM typings; only what is used here is declared
+interface RecognitionResultEvent {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+interface RecognitionErrorEvent {
+  error: string;
+}
+
+interface SpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: RecognitionResultEvent) => void) | null;
+  onerror: ((event: RecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type SpeechRecognitionClass = new () => SpeechRecognition;
+
+const getRecognitionClass = (): SpeechRecognitionClass | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const speechWindow = window as Window & { SpeechRecognition?: SpeechRecognitionClass; webkitSpeechRecognition?: SpeechRecognitionClass };
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+};
+
+export const isPronunciationSupported = () => {
+  const canRecord = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== 'undefined';
+  return (canRecord && hasGeminiApiKey()) || !!getRecognitionClass();
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+const recordForGemini = async (): Promise<PronunciationRecording> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const mimeType = RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+  const release = () => stream.getTracks().forEach(track => track.stop());
+  recorder.start();
+
+  return {
+    stop: async () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      await stopped;
+      release();
+      const blob = new Blob(chunks, { type: recorder.mimeType || 'audio/webm' });
+      if (blob.size === 0) return '';
+      // Gemini expects the bare media type without codec parameters
+      return transcribeSpeech(await blobToBase64(blob), blob.type.split(';')[0]);
+    },
+    cancel: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      release();
+    }
+  };
+};
+
+const recordWithBrowser = (Recognition: SpeechRecognitionClass): PronunciationRecording => {
+  const recognition = new Recognition();
+  recognition.lang = 'es-ES';
+  recognition.continuous = true;
+  recognition.interimResults = false;
+
+  const parts: string[] = [];
+  let error: string | null = null;
+  recognition.onresult = (event) => {
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      if (event.results[i].isFinal) parts.push(event.results[i][0].transcript);
+    }
+  };
+  recognition.onerror = (event) => {
+    if (event.error !== 'no-speech' && event.error !== 'aborted') error = event.error;
+  };
+  const ended = new Promise<void>(resolve => { recognition.onend = () => resolve(); });
+  recognition.start();
+
+  return {
+    stop: async () => {
+      recognition.stop();
+      await ended;
+      if (error === 'not-allowed') throw new Error("Kein Zugriff auf das Mikrofon.");
+      if (error) throw new Error(`Spracherkennung fehlgeschlagen: ${error}`);
+      return parts.join(' ').trim();
+    },
+    cancel: () => recognition.abort()
+  };
+};
+
+export const startPronunciationAttempt = async (): Promise<PronunciationRecording> => {
+  const Recognition = getRecognitionClass();
+  if (Recognition && (getSpeechSettings().preferLocal || !hasGeminiApiKey())) return recordWithBrowser(Recognition);
+  if (!hasGeminiApiKey()) throw new Error("Für das Nachsprechen wird ein API Key oder ein Browser mit Spracherkennung benötigt.");
+  try {
+    return await recordForGemini();
+  } catch (e: any) {
+    if (e?.name === 'NotAllowedError') throw new Error("Kein Zugriff auf das Mikrofon.");
+    throw e;
+  }
+};
+
+export const scorePronunciation = (target: string, transcript: string): PronunciationResult => {
+  const tokens = diffWords(target, transcript);
+  return { transcript, tokens, accuracy: diffAccuracy(tokens) };
+};
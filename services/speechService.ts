@@ -0,0 +1,106 @@
+import { generateSpeech } from './geminiService';
+import { getSpeechSettings, getCachedSpeech, cacheSpeech } from './storageService';
+import { playPcm, stopAudio } from './audioPlayer';
+import { isCancelled } from './geminiRequest';
+
+// Prebuilt Gemini voices; all of them speak Spanish.
+export const SPEECH_VOICES: { id: string; label: string }[] = [
+  { id: 'Puck', label: 'Puck · lebhaft' },
+  { id: 'Kore', label: 'Kore · klar' },
+  { id: 'Charon', label: 'Charon · ruhig' },
+  { id: 'Aoede', label: 'Aoede · leicht' },
+  { id: 'Fenrir', label: 'Fenrir · kräftig' },
+  { id: 'Leda', label: 'Leda · jung' }
+];
+
+export const SPEECH_RATES = [0.5, 0.75, 1, 1.25, 1.5];
+
+const VOICES_TIMEOUT_MS = 1000;
+
+const cacheKey = (text: string, voice: string) => `${voice}|${text.trim()}`;
+
+export const isLocalSpeechSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Some browsers only fill the voice list after the first voiceschanged event.
+const loadLocalVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+  return new Promise(resolve => {
+    const done = () => {
+      window.speechSynthesis.removeEventListener('voiceschanged', done);
+      resolve(window.speechSynthesis.getVoices());
+    };
+    window.speechSynthesis.addEventListener('voiceschanged', done);
+    setTimeout(done, VOICES_TIMEOUT_MS);
+  });
+};
+
+const pickSpanishVoice = (voices: SpeechSynthesisVoice[]) => {
+  const spanish = voices.filter(v => v.lang.toLowerCase().startsWith('es'));
+  return spanish.find(v => v.lang === 'es-ES' && v.localService)
+    || spanish.find(v => v.lang === 'es-ES')
+    || spanish[0];
+};
+
+const speakLocally = async (text: string, rate: number): Promise<void> => {
+  if (!isLocalSpeechSupported()) throw new Error("Dieser Browser unterstützt keine Sprachausgabe.");
+  const voice = pickSpanishVoice(await loadLocalVoices());
+  stopSpeaking();
+  const utterance = new SpeechSynthesisUtterance(text.trim());
+  utterance.lang = voice?.lang || 'es-ES';
+  if (voice) utterance.voice = voice;
+  utterance.rate = rate;
+  return new Promise((resolve, reject) => {
+    utterance.onend = () => resolve();
+    utterance.onerror = (event) => {
+      // Cancelling (stop or a newer utterance) is not an error for the caller
+      if (event.error === 'canceled' || event.error === 'interrupted') resolve();
+      else reject(new Error(`Sprachausgabe fehlgeschlagen: ${event.error}`));
+    };
+    window.speechSynthesis.speak(utterance);
+  });
+};
+
+// Aborted by stopSpeaking while the audio is still being generated
+let pendingGeneration: AbortController | null = null;
+
+const speakWithGemini = async (text: string, voice: string, rate: number): Promise<void> => {
+  const key = cacheKey(text, voice);
+  let pcm = await getCachedSpeech(key);
+  if (!pcm) {
+    pendingGeneration?.abort();
+    const controller = new AbortController();
+    pendingGeneration = controller;
+    try {
+      pcm = await generateSpeech(text.trim(), voice, controller.signal);
+    } finally {
+      if (pendingGeneration === controller) pendingGeneration = null;
+    }
+    await cacheSpeech(key, pcm);
+  }
+  await playPcm(pcm, rate);
+};
+
+// Reads the text aloud with the configured voice and speed. Gemini audio is generated once per
+// text and voice; without an API key or when the request fails the browser's voice takes over.
+export const speak = async (text: string): Promise<void> => {
+  const { voice, rate, preferLocal } = getSpeechSettings();
+  if (preferLocal && isLocalSpeechSupported()) {
+    await speakLocally(text, rate);
+    return;
+  }
+  try {
+    await speakWithGemini(text, voice, rate);
+  } catch (e) {
+    if (isCancelled(e)) return;
+    if (!isLocalSpeechSupported()) throw e;
+    console.warn("Gemini TTS unavailable, using browser speech", e);
+    await speakLocally(text, rate);
+  }
+};
+
+export const stopSpeaking = () => {
+  pendingGeneration?.abort();
+  stopAudio();
+  if (isLocalSpeechSupported()) window.speechSynthesis.cancel();
+};
@@ -0,0 +1,87 @@
+import { VocabItem, MasteryLevel, ReviewLogEntry } from "../types";
+
+// SM-2 style scheduler. The trainer ratings map onto SM-2 answer qualities:
+// again = forgotten, medium = hard recall, good = normal recall, mastered = effortless recall.
+
+export type ReviewRating = Exclude<MasteryLevel, 'new'>;
+
+export type ReviewUpdate = Required<Pick<VocabItem, 'ease' | 'interval' | 'repetitions' | 'lapses' | 'dueAt' | 'lastReviewedAt' | 'reviewHistory'>>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const EASY_BONUS = 1.3;
+const MAX_HISTORY = 50;
+
+const QUALITY: Record<ReviewRating, number> = {
+  again: 1,
+  medium: 3,
+  good: 4,
+  mastered: 5
+};
+
+const startOfDay = (timestamp: number) => {
+  const d = new Date(timestamp);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+export const scheduleReview = (item: VocabItem, rating: ReviewRating, now: number = Date.now()): ReviewUpdate => {
+  const quality = QUALITY[rating];
+  let ease = item.ease ?? DEFAULT_EASE;
+  let repetitions = item.repetitions ?? 0;
+  let lapses = item.lapses ?? 0;
+  let interval: number;
+  let dueAt: number;
+
+  if (quality < 3) {
+    // Forgotten: start over and show the card again shortly
+    repetitions = 0;
+    lapses += 1;
+    interval = 0;
+    ease = Math.max(MIN_EASE, ease - 0.2);
+    dueAt = now + RELEARN_DELAY_MS;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) interval = 1;
+    else if (repetitions === 2) interval = 6;
+    else interval = Math.round((item.interval || 1) * ease);
+
+    if (rating === 'mastered') interval = Math.round(interval * EASY_BONUS) + (repetitions === 1 ? 2 : 0);
+
+    ease = Math.max(MIN_EASE, ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+    dueAt = startOfDay(now) + interval * DAY_MS;
+  }
+
+  const entry: ReviewLogEntry = { reviewedAt: now, rating, interval };
+  return {
+    ease: Math.round(ease * 100) / 100,
+    interval,
+    repetitions,
+    lapses,
+    dueAt,
+    lastReviewedAt: now,
+    reviewHistory: [...(item.reviewHistory || []), entry].slice(-MAX_HISTORY)
+  };
+};
+
+// Cards that were never reviewed are always due.
+export const isDue = (item: VocabItem, now: number = Date.now()): boolean => {
+  if (!item.dueAt) return true;
+  return item.dueAt < startOfDay(now) + DAY_MS;
+};
+
+// Due reviews first (most overdue first), then new cards in random order.
+export const buildDueQueue = (items: VocabItem[], now: number = Date.now()): VocabItem[] => {
+  const reviews = items.filter(i => i.dueAt && isDue(i, now)).sort((a, b) => (a.dueAt || 0) - (b.dueAt || 0));
+  const fresh = items.filter(i => !i.dueAt).sort(() => Math.random() - 0.5);
+  return [...reviews, ...fresh];
+};
+
+export const formatInterval = (update: Pick<ReviewUpdate, 'interval' | 'dueAt'>, now: number = Date.now()): string => {
+  if (update.interval === 0) return `${Math.max(1, Math.round((update.dueAt - now) / 60000))} Min`;
+  if (update.interval < 30) return `${update.interval} T`;
+  if (update.interval < 365) return `${Math.round(update.interval / 30)} Mon`;
+  return `${Math.round(update.interval / 365)} J`;
+};
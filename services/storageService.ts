@@ -1,20 +1,14 @@
-import { VocabItem, PageAnalysisResult, PersistedAnalysis, Book, BookPage, MasteryLevel } from '../types';
-import { db, auth } from './firebase';
-import { 
-  collection, 
-  doc, 
-  getDocs, 
-  setDoc, 
-  deleteDoc, 
-  query, 
-  orderBy, 
-  writeBatch,
-  addDoc,
-  updateDoc,
-  increment,
-  getDoc
-} from 'firebase/firestore';
+import { VocabItem, NewVocabItem, VocabSource, PageAnalysisResult, SentenceAnalysis, PersistedAnalysis, Book, BookPage, MasteryLevel, AnalysisProviderSettings, DictationRecord, SpeechSettings, VocabSavePolicy } from '../types';
+import { auth } from './firebase';
+import type { ReviewUpdate } from './srsScheduler';
 import { onAuthStateChanged, User } from 'firebase/auth';
+import { GUEST_SCOPE, getAllRecords, getRecordsByIndex, getRecord, putRecords, deleteRecords, getMeta, setMeta } from './localDb';
+import { OutboxEntry, enqueue, startSync, waitForInitialSync, sanitizeData } from './syncService';
+import { externalizePageImage, loadImage, removeImages, pageImageRef } from './pageImageStore';
+import { lemmaKey, createLemmaItem, addFormToLemma, updateFormInLemma, removeFormFromLemma, dropFormFromLemma, hasForm, groupVocabByLemma, getForms, getSources } from './vocabLemmas';
+import { diffSentenceVocab } from './analysisEditing';
+import { collectVocabFromAnalysis, selectVocabToSave } from './vocabExtraction';
+import { DictationSentence, sentenceId, diffWords, diffAccuracy } from './dictation';
 
 const VOCAB_KEY = 'spanish_assistant_vocab';
 const ANALYSIS_KEY = 'spanish_assistant_last_analysis';
@@ -22,20 +16,98 @@ const HISTORY_KEY = 'spanish_assistant_history';
 const THEME_KEY = 'spanish_assistant_theme';
 const SESSION_API_KEY = 'spanish_assistant_session_key';
 const BOOKS_KEY = 'spanish_assistant_books';
+const ANALYSIS_PROVIDER_KEY = 'spanish_assistant_analysis_provider';
+const SPEECH_KEY = 'spanish_assistant_speech';
+const VOCAB_POLICY_KEY = 'spanish_assistant_vocab_policy';
+
+export const DEFAULT_ANALYSIS_PROVIDER_SETTINGS: AnalysisProviderSettings = {
+  provider: 'gemini',
+  geminiModel: 'gemini-3-flash-preview',
+  endpointUrl: 'http://localhost:11434/v1',
+  endpointModel: '',
+  endpointApiKey: ''
+};
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  voice: 'Puck',
+  rate: 1,
+  preferLocal: false
+};
 
+export const DEFAULT_VOCAB_SAVE_POLICY: VocabSavePolicy = {
+  autoSave: true,
+  skipFunctionWords: false,
+  skipKnown: false,
+  skipFrequent: false,
+  frequentTopN: 250
+};
+
+// IndexedDB (see localDb.ts) is the single source of truth. Signed-in users additionally get every
+// write queued in an outbox that syncService replays against Firestore when online.
 let currentUser: User | null = null;
 onAuthStateChanged(auth, user => {
   currentUser = user;
+  startSync(user ? user.uid : null);
 });
 
-const sanitizeData = (data: any) => {
-  const sanitized: any = {};
-  Object.keys(data).forEach(key => {
-    if (data[key] !== undefined) {
-      sanitized[key] = data[key];
+// Guest data from versions before the IndexedDB store lived in localStorage.
+export const importLegacyLocalStorage = async () => {
+  if (await getMeta<boolean>(GUEST_SCOPE, 'legacyImported')) return;
+
+  const vocab: VocabItem[] = JSON.parse(localStorage.getItem(VOCAB_KEY) || '[]');
+  const books: Book[] = JSON.parse(localStorage.getItem(BOOKS_KEY) || '[]');
+  const pages: BookPage[] = books.flatMap(book => JSON.parse(localStorage.getItem(`${BOOKS_KEY}_pages_${book.id}`) || '[]'));
+
+  await putRecords(GUEST_SCOPE, 'vocab', vocab);
+  await putRecords(GUEST_SCOPE, 'books', books);
+  await putRecords(GUEST_SCOPE, 'pages', pages);
+  await setMeta(GUEST_SCOPE, 'legacyImported', true);
+
+  localStorage.removeItem(VOCAB_KEY);
+  localStorage.removeItem(BOOKS_KEY);
+  books.forEach(book => localStorage.removeItem(`${BOOKS_KEY}_pages_${book.id}`));
+};
+
+let legacyImport: Promise<void> | null = null;
+const lemmaGrouping = new Map<string, Promise<void>>();
+
+// Guests have nothing to sync, so only signed-in scopes get outbox entries.
+const queueRemote = async (scope: string, entries: Array<Omit<OutboxEntry, 'seq' | 'createdAt'>>) => {
+  if (scope === GUEST_SCOPE || entries.length === 0) return;
+  await enqueue(scope, entries);
+};
+
+// Vocab saved before lemma grouping has one item per surface form; merge them once per scope.
+const groupLegacyVocab = async (scope: string) => {
+  if (await getMeta<boolean>(scope, 'vocabGroupedByLemma')) return;
+  const { changed, removedIds } = groupVocabByLemma(await getAllRecords<VocabItem>(scope, 'vocab'));
+  await putRecords(scope, 'vocab', changed);
+  await deleteRecords(scope, 'vocab', removedIds);
+  await queueRemote(scope, [
+    ...changed.map(item => ({ op: 'set' as const, path: ['vocabulary', item.id], data: sanitizeData(item) })),
+    ...removedIds.map(id => ({ op: 'delete' as const, path: ['vocabulary', id] }))
+  ]);
+  await setMeta(scope, 'vocabGroupedByLemma', true);
+};
+
+// Resolves the scope to read from once its local data is available.
+const ready = async (): Promise<string> => {
+  const user = currentUser;
+  let scope = GUEST_SCOPE;
+  if (user) {
+    await waitForInitialSync(user.uid);
+    scope = user.uid;
+  } else {
+    if (!legacyImport) {
+      legacyImport = importLegacyLocalStorage().catch(e => console.error("Failed to import legacy data", e));
     }
-  });
-  return sanitized;
+    await legacyImport;
+  }
+  if (!lemmaGrouping.has(scope)) {
+    lemmaGrouping.set(scope, groupLegacyVocab(scope).catch(e => console.error("Failed to group vocab", e)));
+  }
+  await lemmaGrouping.get(scope);
+  return scope;
 };
 
 export const setSessionApiKey = (key: string) => {
@@ -50,195 +122,95 @@ export const clearSessionApiKey = () => {
   sessionStorage.removeItem(SESSION_API_KEY);
 };
 
-const getVocabCollection = () => {
-  const user = currentUser;
-  if (!user) return null;
-  return collection(db, 'users', user.uid, 'vocabulary');
-};
+const normalizeVocab = (item: VocabItem): VocabItem => ({
+    ...item,
+    // Normalize legacy data
+    masteryLevel: item.masteryLevel || (item.mastered ? 'mastered' : 'new')
+});
 
 export const getVocab = async (): Promise<VocabItem[]> => {
-  const user = currentUser;
-  if (user) {
-    try {
-      const colRef = getVocabCollection();
-      if (!colRef) return [];
-      const q = query(colRef, orderBy('addedAt', 'desc'));
-      const querySnapshot = await getDocs(q);
-      return querySnapshot.docs.map(doc => {
-          const data = doc.data() as VocabItem;
-          // Normalize legacy data
-          if (!data.masteryLevel) {
-              data.masteryLevel = data.mastered ? 'mastered' : 'new';
-          }
-          return { ...data, id: doc.id };
-      });
-    } catch (e) {
-      console.error("Failed to load vocab from Firestore", e);
-      return [];
-    }
-  }
-
   try {
-    const stored = localStorage.getItem(VOCAB_KEY);
-    const parsed = stored ? JSON.parse(stored) : [];
-    return parsed.map((item: any) => ({
-        ...item,
-        masteryLevel: item.masteryLevel || (item.mastered ? 'mastered' : 'new')
-    }));
+    const scope = await ready();
+    const items = await getAllRecords<VocabItem>(scope, 'vocab');
+    return items.map(normalizeVocab).sort((a, b) => b.addedAt - a.addedAt);
   } catch (e) {
-    console.error("Failed to load vocab from LocalStorage", e);
+    console.error("Failed to load vocab", e);
     return [];
   }
 };
 
-export const addVocabBatch = async (items: Array<Omit<VocabItem, 'id' | 'addedAt' | 'mastered' | 'masteryLevel'>>): Promise<number> => {
-    const user = currentUser;
+export const addVocabBatch = async (items: NewVocabItem[]): Promise<number> => {
+    const scope = await ready();
     const addedAt = Date.now();
-    let addedCount = 0;
 
     const current = await getVocab();
-    const existingWords = new Set(current.map(v => v.word.trim().toLowerCase()));
-
-    if (user) {
-        try {
-            const batch = writeBatch(db);
-            const colRef = getVocabCollection();
-            if (!colRef) return 0;
-
-            let ops = 0;
-            for (const item of items) {
-                const normalizedWord = item.word.trim().toLowerCase();
-                if (!existingWords.has(normalizedWord) && normalizedWord.length > 0) {
-                    const id = crypto.randomUUID();
-                    const newItem: VocabItem = {
-                        ...item,
-                        word: item.word.trim(),
-                        id,
-                        addedAt,
-                        mastered: false,
-                        masteryLevel: 'new'
-                    };
-                    const docRef = doc(colRef, id);
-                    batch.set(docRef, sanitizeData(newItem));
-                    addedCount++;
-                    existingWords.add(normalizedWord);
-                    ops++;
-                }
-            }
-            if (ops > 0) await batch.commit();
-            return addedCount;
-        } catch (e) {
-            console.error("Batch add failed in Firestore", e);
-            return 0;
-        }
-    }
+    const byLemma = new Map(current.map(v => [lemmaKey(v), v]));
 
-    const updated = [...current];
+    // New lemmas become new items, new forms of known lemmas are added to them
+    const newIds = new Set<string>();
+    const updatedIds = new Set<string>();
     items.forEach(item => {
-        const normalizedWord = item.word.trim().toLowerCase();
-        if (!existingWords.has(normalizedWord) && normalizedWord.length > 0) {
-            updated.unshift({
-                ...item,
-                word: item.word.trim(),
-                id: crypto.randomUUID(),
-                addedAt,
-                mastered: false,
-                masteryLevel: 'new'
-            });
-            addedCount++;
-            existingWords.add(normalizedWord);
+        if (item.word.trim().length === 0) return;
+        const key = lemmaKey(item);
+        const existing = byLemma.get(key);
+        if (!existing) {
+            const created = createLemmaItem(item, crypto.randomUUID(), addedAt);
+            byLemma.set(key, created);
+            newIds.add(created.id);
+            return;
+        }
+        const updated = addFormToLemma(existing, item, addedAt);
+        if (updated) {
+            byLemma.set(key, updated);
+            if (!newIds.has(updated.id)) updatedIds.add(updated.id);
         }
     });
 
-    if (addedCount > 0) {
-        localStorage.setItem(VOCAB_KEY, JSON.stringify(updated));
+    const changed = Array.from(byLemma.values()).filter(v => newIds.has(v.id) || updatedIds.has(v.id));
+    if (changed.length > 0) {
+        await putRecords(scope, 'vocab', changed);
+        await queueRemote(scope, changed.map(item => newIds.has(item.id)
+            ? { op: 'set' as const, path: ['vocabulary', item.id], data: sanitizeData(item) }
+            : { op: 'update' as const, path: ['vocabulary', item.id], data: sanitizeData({ forms: item.forms, translation: item.translation, explanation: item.explanation, source: item.source, occurrences: item.occurrences }) }
+        ));
     }
-    return addedCount;
+    return newIds.size;
 };
 
-export const updateVocabStatus = async (id: string, level: MasteryLevel) => {
-    const user = currentUser;
-    const mastered = level === 'mastered';
-    
-    if (user) {
-        try {
-            const docRef = doc(db, 'users', user.uid, 'vocabulary', id);
-            await updateDoc(docRef, { masteryLevel: level, mastered });
-            return;
-        } catch (e) { console.error(e); }
-    }
+export const updateVocabStatus = async (id: string, level: MasteryLevel, review?: ReviewUpdate) => {
+    const scope = await ready();
+    const changes = sanitizeData({ masteryLevel: level, mastered: level === 'mastered', ...review, masteryUpdatedAt: Date.now() });
 
-    const current = await getVocab();
-    const updated = current.map(item => item.id === id ? { ...item, masteryLevel: level, mastered } : item);
-    localStorage.setItem(VOCAB_KEY, JSON.stringify(updated));
+    const item = await getRecord<VocabItem>(scope, 'vocab', id);
+    if (!item) return;
+    await putRecords(scope, 'vocab', [{ ...item, ...changes }]);
+    await queueRemote(scope, [{ op: 'update', path: ['vocabulary', id], data: changes, guard: 'masteryUpdatedAt' }]);
 };
 
 export const removeVocabBatch = async (ids: string[]) => {
-    const user = currentUser;
-    if (user) {
-        try {
-            const batch = writeBatch(db);
-            ids.forEach(id => {
-                const docRef = doc(db, 'users', user.uid, 'vocabulary', id);
-                batch.delete(docRef);
-            });
-            await batch.commit();
-            return;
-        } catch (e) { console.error(e); }
-    }
-
-    const current = await getVocab();
-    const updated = current.filter(item => !ids.includes(item.id));
-    localStorage.setItem(VOCAB_KEY, JSON.stringify(updated));
+    const scope = await ready();
+    await deleteRecords(scope, 'vocab', ids);
+    await queueRemote(scope, ids.map(id => ({ op: 'delete', path: ['vocabulary', id] })));
 };
 
 export const importVocabFromJson = async (items: VocabItem[]): Promise<number> => {
-  const user = currentUser;
-  let importedCount = 0;
-
-  if (user) {
-    try {
-      const batch = writeBatch(db);
-      const colRef = getVocabCollection();
-      if (!colRef) return 0;
-      
-      const current = await getVocab();
-      const existingWords = new Set(current.map(v => v.word.trim().toLowerCase()));
-
-      for (const item of items) {
-        if (!existingWords.has(item.word.trim().toLowerCase())) {
-          const id = item.id || crypto.randomUUID();
-          const docRef = doc(colRef, id);
-          const itemToSave = { ...item, id, masteryLevel: item.masteryLevel || 'new' };
-          batch.set(docRef, sanitizeData(itemToSave));
-          importedCount++;
-          existingWords.add(item.word.trim().toLowerCase());
-        }
-      }
-      await batch.commit();
-      return importedCount;
-    } catch (e) {
-      console.error("Import failed in Firestore", e);
-      return 0;
-    }
-  }
-
+  const scope = await ready();
   const current = await getVocab();
-  const updated = [...current];
-  const existingWords = new Set(current.map(v => v.word.trim().toLowerCase()));
+  const existingLemmas = new Set(current.map(lemmaKey));
 
+  const imported: VocabItem[] = [];
   items.forEach(item => {
-    if (!existingWords.has(item.word.trim().toLowerCase())) {
-      updated.unshift({ ...item, id: item.id || crypto.randomUUID(), masteryLevel: item.masteryLevel || 'new' });
-      importedCount++;
-      existingWords.add(item.word.trim().toLowerCase());
+    if (!existingLemmas.has(lemmaKey(item))) {
+      imported.push({ ...item, id: item.id || crypto.randomUUID(), masteryLevel: item.masteryLevel || 'new' });
+      existingLemmas.add(lemmaKey(item));
     }
   });
 
-  if (importedCount > 0) {
-    localStorage.setItem(VOCAB_KEY, JSON.stringify(updated));
+  if (imported.length > 0) {
+    await putRecords(scope, 'vocab', imported);
+    await queueRemote(scope, imported.map(item => ({ op: 'set', path: ['vocabulary', item.id], data: sanitizeData(item) })));
   }
-  return importedCount;
+  return imported.length;
 };
 
 export const removeVocab = async (id: string) => {
@@ -252,12 +224,54 @@ export const toggleMastered = async (id: string) => {
     await updateVocabStatus(id, item.masteryLevel === 'mastered' ? 'good' : 'mastered');
 }
 
+// Saves the vocab of an analysed page as the saving policy allows; returns the number of new lemmas
+export const saveVocabFromAnalysis = async (analysis: PageAnalysisResult, page?: { bookId: string; pageId: string }): Promise<number> => {
+    const policy = getVocabSavePolicy();
+    if (!policy.autoSave) return 0;
+    const saved = new Map((await getVocab()).map(v => [lemmaKey(v), v]));
+    return addVocabBatch(selectVocabToSave(collectVocabFromAnalysis(analysis, page), policy, saved));
+};
+
+// Removing a bookmarked lemma deletes it; an inflected form only leaves its lemma
+const planWordRemoval = (vocab: VocabItem[], word: string) => {
+    const target = word.trim().toLowerCase();
+    const removed: VocabItem[] = [];
+    const changed: VocabItem[] = [];
+    vocab.filter(v => hasForm(v, word)).forEach(item => {
+        const updated = item.word.trim().toLowerCase() === target ? null : dropFormFromLemma(item, word);
+        if (!updated) removed.push(item);
+        else if (updated !== item) changed.push(updated);
+    });
+    return { removed, changed };
+};
+
+// Lemmas that removing the word would delete although they were already practised, so callers can confirm
+export const getPractisedVocabRemovedWith = async (word: string): Promise<VocabItem[]> => {
+    const { removed } = planWordRemoval(await getVocab(), word);
+    return removed.filter(item => (item.reviewHistory?.length || 0) > 0);
+};
+
+export const removeWordFromVocab = async (word: string) => {
+    const scope = await ready();
+    const { removed, changed } = planWordRemoval(await getVocab(), word);
+
+    if (changed.length > 0) {
+        await putRecords(scope, 'vocab', changed);
+        await queueRemote(scope, changed.map(item => ({
+            op: 'update' as const,
+            path: ['vocabulary', item.id],
+            data: sanitizeData({ forms: item.forms, source: item.source, occurrences: item.occurrences })
+        })));
+    }
+    if (removed.length > 0) await removeVocabBatch(removed.map(item => item.id));
+};
+
 export const isVocabSaved = async (word: string): Promise<boolean> => {
     const current = await getVocab();
-    return current.some(v => v.word.trim().toLowerCase() === word.trim().toLowerCase());
+    return current.some(v => hasForm(v, word));
 }
 
-export const saveCurrentAnalysis = (data: PageAnalysisResult, image: string) => {
+export const saveCurrentAnalysis = (data: PageAnalysisResult, image?: string) => {
     const entry: PersistedAnalysis = { data, image, timestamp: Date.now() };
     localStorage.setItem(ANALYSIS_KEY, JSON.stringify(entry));
     
@@ -288,26 +302,83 @@ export const setTheme = (theme: 'light' | 'dark') => {
   localStorage.setItem(THEME_KEY, theme);
 };
 
+export const getAnalysisProviderSettings = (): AnalysisProviderSettings => {
+  try {
+    const stored = localStorage.getItem(ANALYSIS_PROVIDER_KEY);
+    return stored ? { ...DEFAULT_ANALYSIS_PROVIDER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_ANALYSIS_PROVIDER_SETTINGS;
+  } catch (e) {
+    console.error("Failed to load analysis provider settings", e);
+    return DEFAULT_ANALYSIS_PROVIDER_SETTINGS;
+  }
+};
+
+export const setAnalysisProviderSettings = (settings: AnalysisProviderSettings) => {
+  localStorage.setItem(ANALYSIS_PROVIDER_KEY, JSON.stringify(settings));
+};
+
+export const getSpeechSettings = (): SpeechSettings => {
+  try {
+    const stored = localStorage.getItem(SPEECH_KEY);
+    return stored ? { ...DEFAULT_SPEECH_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SPEECH_SETTINGS;
+  } catch (e) {
+    console.error("Failed to load speech settings", e);
+    return DEFAULT_SPEECH_SETTINGS;
+  }
+};
+
+export const setSpeechSettings = (settings: SpeechSettings) => {
+  localStorage.setItem(SPEECH_KEY, JSON.stringify(settings));
+};
+
+export const getVocabSavePolicy = (): VocabSavePolicy => {
+  try {
+    const stored = localStorage.getItem(VOCAB_POLICY_KEY);
+    return stored ? { ...DEFAULT_VOCAB_SAVE_POLICY, ...JSON.parse(stored) } : DEFAULT_VOCAB_SAVE_POLICY;
+  } catch (e) {
+    console.error("Failed to load vocab save policy", e);
+    return DEFAULT_VOCAB_SAVE_POLICY;
+  }
+};
+
+export const setVocabSavePolicy = (policy: VocabSavePolicy) => {
+  localStorage.setItem(VOCAB_POLICY_KEY, JSON.stringify(policy));
+};
+
+// Generated speech is cached per device only; it can always be generated again.
+export const getCachedSpeech = async (key: string): Promise<Uint8Array | undefined> => {
+  try {
+    const scope = await ready();
+    return await getRecord<Uint8Array>(scope, 'audio', key);
+  } catch (e) {
+    console.error("Failed to read speech cache", e);
+    return undefined;
+  }
+};
+
+export const cacheSpeech = async (key: string, pcm: Uint8Array) => {
+  try {
+    const scope = await ready();
+    await putRecords(scope, 'audio', [pcm], [key]);
+  } catch (e) {
+    console.error("Failed to cache speech", e);
+  }
+};
+
 export const getBooks = async (): Promise<Book[]> => {
-    const user = currentUser;
-    if (user) {
-        try {
-            const colRef = collection(db, 'users', user.uid, 'books');
-            const q = query(colRef, orderBy('createdAt', 'desc'));
-            const querySnapshot = await getDocs(q);
-            return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Book));
-        } catch (e) {
-            console.error("Failed to load books", e);
-            return [];
-        }
+    try {
+        const scope = await ready();
+        const books = await getAllRecords<Book>(scope, 'books');
+        return books.sort((a, b) => b.createdAt - a.createdAt);
+    } catch (e) {
+        console.error("Failed to load books", e);
+        return [];
     }
-    const stored = localStorage.getItem(BOOKS_KEY);
-    return stored ? JSON.parse(stored) : [];
 };
 
 export const createBook = async (title: string, author: string): Promise<string> => {
-    const user = currentUser;
-    const newBook: Omit<Book, 'id'> = {
+    const scope = await ready();
+    const newBook: Book = {
+        id: crypto.randomUUID(),
         title,
         author,
         createdAt: Date.now(),
@@ -315,113 +386,411 @@ export const createBook = async (title: string, author: string): Promise<string>
         coverStyle: ['bg-emerald-800', 'bg-amber-900', 'bg-slate-800', 'bg-indigo-900'][Math.floor(Math.random() * 4)]
     };
 
-    if (user) {
-        try {
-            const colRef = collection(db, 'users', user.uid, 'books');
-            const docRef = await addDoc(colRef, newBook);
-            return docRef.id;
-        } catch (e) {
-            console.error("Failed to create book", e);
-            throw e;
-        }
-    }
-
-    const books = await getBooks();
-    const id = crypto.randomUUID();
-    const bookWithId = { ...newBook, id };
-    localStorage.setItem(BOOKS_KEY, JSON.stringify([bookWithId, ...books]));
+    await putRecords(scope, 'books', [newBook]);
+    const { id, ...bookData } = newBook;
+    await queueRemote(scope, [{ op: 'set', path: ['books', id], data: bookData }]);
     return id;
 };
 
-export const deleteBook = async (bookId: string) => {
-     const user = currentUser;
-     if (user) {
-         try {
-             await deleteDoc(doc(db, 'users', user.uid, 'books', bookId));
-             return;
-         } catch(e) { console.error(e) }
-     }
-     const books = await getBooks();
-     const updated = books.filter(b => b.id !== bookId);
-     localStorage.setItem(BOOKS_KEY, JSON.stringify(updated));
-     localStorage.removeItem(`${BOOKS_KEY}_pages_${bookId}`);
+// Vocab read only in the given book. Items saved before provenance was recorded are matched by
+// their context sentences instead.
+const findBookOnlyVocab = async (scope: string, bookId: string): Promise<string[]> => {
+    const [pages, vocab] = await Promise.all([
+        getAllRecords<BookPage>(scope, 'pages'),
+        getAllRecords<VocabItem>(scope, 'vocab')
+    ]);
+    const inBook = new Set<string>();
+    const elsewhere = new Set<string>();
+    pages.forEach(page => page.analysis.sentences.forEach(s => {
+        (page.bookId === bookId ? inBook : elsewhere).add(s.original.trim());
+    }));
+    return vocab.filter(item => {
+        const sources = getSources(item);
+        if (sources.length > 0) return sources.every(s => s.bookId === bookId);
+        return getForms(item).every(form => {
+            const sentence = form.contextSentence?.trim();
+            return !!sentence && inBook.has(sentence) && !elsewhere.has(sentence);
+        });
+    }).map(item => item.id);
+};
+
+export const countBookOnlyVocab = async (bookId: string): Promise<number> => {
+    return (await findBookOnlyVocab(await ready(), bookId)).length;
+};
+
+// Removes the book with all pages and images; with removeVocab also the vocab found only in this book.
+export const deleteBook = async (bookId: string, removeVocab: boolean = false) => {
+     const scope = await ready();
+     const vocabIds = removeVocab ? await findBookOnlyVocab(scope, bookId) : [];
+     const pages = await getRecordsByIndex<BookPage>(scope, 'pages', 'bookId', bookId);
+     const imageRefs = pages.flatMap(p => p.imageRef ? [p.imageRef] : []);
+     await removeImages(scope, imageRefs);
+     await deleteRecords(scope, 'pages', pages.map(p => p.id));
+     await deleteRecords(scope, 'books', [bookId]);
+     await deleteRecords(scope, 'vocab', vocabIds);
+     await queueRemote(scope, [
+         // Firestore keeps subcollections of deleted documents, so the pages go first
+         { op: 'deleteCollection', path: ['books', bookId, 'pages'] },
+         { op: 'delete', path: ['books', bookId] },
+         ...imageRefs.map(ref => ({ op: 'deleteFile' as const, path: ref.split('/') })),
+         ...vocabIds.map(id => ({ op: 'delete' as const, path: ['vocabulary', id] }))
+     ]);
 }
 
+// Pages saved before the image store still carry their image inline
+const moveInlineImage = async (scope: string, page: BookPage): Promise<BookPage> => {
+    const moved = await externalizePageImage(scope, page);
+    await putRecords(scope, 'pages', [moved]);
+    const { id, ...pageData } = moved;
+    await queueRemote(scope, [
+        { op: 'upload', path: moved.imageRef!.split('/') },
+        { op: 'set', path: ['books', page.bookId, 'pages', id], data: pageData }
+    ]);
+    return moved;
+};
+
 export const getBookPages = async (bookId: string): Promise<BookPage[]> => {
-    const user = currentUser;
-    if (user) {
-        try {
-            const colRef = collection(db, 'users', user.uid, 'books', bookId, 'pages');
-            const q = query(colRef, orderBy('pageNumber', 'asc'));
-            const querySnapshot = await getDocs(q);
-            return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as BookPage));
-        } catch (e) {
-            console.error("Failed to load pages", e);
-            return [];
-        }
+    try {
+        const scope = await ready();
+        const pages = await getRecordsByIndex<BookPage>(scope, 'pages', 'bookId', bookId);
+        const migrated = await Promise.all(pages.map(p => p.image ? moveInlineImage(scope, p) : p));
+        return migrated.sort((a, b) => a.pageNumber - b.pageNumber);
+    } catch (e) {
+        console.error("Failed to load pages", e);
+        return [];
     }
-    const stored = localStorage.getItem(`${BOOKS_KEY}_pages_${bookId}`);
-    return stored ? JSON.parse(stored) : [];
 };
 
-export const addPageToBook = async (bookId: string, image: string, analysis: PageAnalysisResult): Promise<string> => {
-    const user = currentUser;
+export const addPageToBook = async (bookId: string, image: string | null, analysis: PageAnalysisResult): Promise<string> => {
+    const scope = await ready();
     const currentPages = await getBookPages(bookId);
-    const pageNumber = currentPages.length + 1;
+    const pageNumber = Math.max(0, ...currentPages.map(p => p.pageNumber)) + 1;
 
-    const newPage: Omit<BookPage, 'id'> = {
+    const newPage: BookPage = await externalizePageImage(scope, sanitizeData({
+        id: crypto.randomUUID(),
         bookId,
         pageNumber,
-        image,
+        image: image || undefined,
         analysis,
         createdAt: Date.now(),
         lastSentenceIndex: 0
-    };
+    }));
+    await putRecords(scope, 'pages', [newPage]);
 
-    if (user) {
-        try {
-            const bookRef = doc(db, 'users', user.uid, 'books', bookId);
-            const pagesColRef = collection(bookRef, 'pages');
-            const docRef = await addDoc(pagesColRef, newPage);
-            await updateDoc(bookRef, { pageCount: increment(1) });
-            return docRef.id;
-        } catch (e) {
-            console.error("Failed to add page", e);
-            throw e;
-        }
+    const book = await getRecord<Book>(scope, 'books', bookId);
+    if (book) {
+        await putRecords(scope, 'books', [{ ...book, pageCount: (book.pageCount || 0) + 1 }]);
     }
 
-    const id = crypto.randomUUID();
-    const pageWithId = { ...newPage, id };
+    const { id, ...pageData } = newPage;
+    await queueRemote(scope, [
+        ...(newPage.imageRef ? [{ op: 'upload' as const, path: newPage.imageRef.split('/') }] : []),
+        { op: 'set', path: ['books', bookId, 'pages', id], data: pageData },
+        { op: 'update', path: ['books', bookId], increments: { pageCount: 1 } }
+    ]);
+    return id;
+};
+
+// Gives the pages the numbers 1..n in the given order and returns the pages whose number changed.
+const renumberPages = (ordered: BookPage[]): BookPage[] => {
+    return ordered
+        .map((page, idx) => ({ page, pageNumber: idx + 1 }))
+        .filter(({ page, pageNumber }) => page.pageNumber !== pageNumber)
+        .map(({ page, pageNumber }) => ({ ...page, pageNumber }));
+};
+
+const pageNumberUpdates = (bookId: string, pages: BookPage[]) => {
+    return pages.map(p => ({ op: 'update' as const, path: ['books', bookId, 'pages', p.id], data: { pageNumber: p.pageNumber } }));
+};
+
+export const deletePage = async (bookId: string, pageId: string) => {
+    const scope = await ready();
     const pages = await getBookPages(bookId);
-    pages.push(pageWithId);
-    localStorage.setItem(`${BOOKS_KEY}_pages_${bookId}`, JSON.stringify(pages));
-
-    const books = await getBooks();
-    const bookIndex = books.findIndex(b => b.id === bookId);
-    if (bookIndex >= 0) {
-        books[bookIndex].pageCount = (books[bookIndex].pageCount || 0) + 1;
-        localStorage.setItem(BOOKS_KEY, JSON.stringify(books));
+    const page = pages.find(p => p.id === pageId);
+    if (!page) return;
+
+    const renumbered = renumberPages(pages.filter(p => p.id !== pageId));
+    if (page.imageRef) await removeImages(scope, [page.imageRef]);
+    await deleteRecords(scope, 'pages', [pageId]);
+    await putRecords(scope, 'pages', renumbered);
+
+    const book = await getRecord<Book>(scope, 'books', bookId);
+    if (book) {
+        await putRecords(scope, 'books', [{ ...book, pageCount: Math.max(0, (book.pageCount || 1) - 1) }]);
     }
-    return id;
+
+    await queueRemote(scope, [
+        { op: 'delete', path: ['books', bookId, 'pages', pageId] },
+        ...(page.imageRef ? [{ op: 'deleteFile' as const, path: page.imageRef.split('/') }] : []),
+        ...pageNumberUpdates(bookId, renumbered),
+        { op: 'update', path: ['books', bookId], increments: { pageCount: -1 } }
+    ]);
+};
+
+// orderedIds lists the page ids of the book in their new order
+export const reorderPages = async (bookId: string, orderedIds: string[]) => {
+    const scope = await ready();
+    const pages = await getBookPages(bookId);
+    const byId = new Map(pages.map(p => [p.id, p]));
+    const ordered = orderedIds.flatMap(id => byId.get(id) ? [byId.get(id)!] : []);
+    // Pages missing from the list (e.g. added on another device meanwhile) keep their relative order at the end
+    const rest = pages.filter(p => !orderedIds.includes(p.id));
+
+    const renumbered = renumberPages([...ordered, ...rest]);
+    await putRecords(scope, 'pages', renumbered);
+    await queueRemote(scope, pageNumberUpdates(bookId, renumbered));
+};
+
+const SENTENCE_MATCH_THRESHOLD = 0.6;
+
+// Index of the most similar sentence of the new analysis for every sentence of the old one
+const matchSentences = (before: SentenceAnalysis[], after: SentenceAnalysis[]): Map<number, number> => {
+    const matches = new Map<number, number>();
+    before.forEach((old, oldIdx) => {
+        let bestIdx = -1;
+        let bestScore = SENTENCE_MATCH_THRESHOLD;
+        after.forEach((sentence, idx) => {
+            const score = diffAccuracy(diffWords(old.original, sentence.original));
+            if (score > bestScore || (score === bestScore && bestIdx === -1)) {
+                bestIdx = idx;
+                bestScore = score;
+            }
+        });
+        if (bestIdx !== -1) matches.set(oldIdx, bestIdx);
+    });
+    return matches;
+};
+
+// Vocab remembers the sentence it was found in by its text and by its index on the page;
+// both are moved to the matching sentence of the new analysis.
+const relinkVocab = async (
+    scope: string,
+    pageId: string,
+    matches: Map<number, number>,
+    before: SentenceAnalysis[],
+    after: SentenceAnalysis[]
+) => {
+    const renamed = new Map<string, SentenceAnalysis>();
+    matches.forEach((newIdx, oldIdx) => {
+        const old = before[oldIdx].original.trim();
+        if (old !== after[newIdx].original.trim()) renamed.set(old, after[newIdx]);
+    });
+    const moves = (source?: VocabSource) => !!source && source.pageId === pageId && matches.has(source.sentenceIndex)
+        && matches.get(source.sentenceIndex) !== source.sentenceIndex;
+    const relinkSource = (source?: VocabSource) => source && moves(source)
+        ? { ...source, sentenceIndex: matches.get(source.sentenceIndex)! }
+        : source;
+    const relink = <T extends { contextSentence?: string; contextTranslation?: string; source?: VocabSource }>(entry: T): T => {
+        const next = entry.contextSentence ? renamed.get(entry.contextSentence.trim()) : undefined;
+        const relinked = { ...entry, source: relinkSource(entry.source) };
+        return next ? { ...relinked, contextSentence: next.original, contextTranslation: next.translation } : relinked;
+    };
+    const isLinked = (item: VocabItem) => getSources(item).some(moves)
+        || [item, ...getForms(item)].some(e => moves(e.source) || (e.contextSentence && renamed.has(e.contextSentence.trim())));
+
+    const changed = (await getAllRecords<VocabItem>(scope, 'vocab'))
+        .filter(isLinked)
+        .map(item => sanitizeData({
+            ...relink(item),
+            forms: item.forms?.map(relink),
+            occurrences: item.occurrences?.map(relinkSource)
+        }) as VocabItem);
+    if (changed.length === 0) return;
+
+    await putRecords(scope, 'vocab', changed);
+    await queueRemote(scope, changed.map(item => ({
+        op: 'update' as const,
+        path: ['vocabulary', item.id],
+        data: sanitizeData({
+            contextSentence: item.contextSentence,
+            contextTranslation: item.contextTranslation,
+            source: item.source,
+            forms: item.forms,
+            occurrences: item.occurrences
+        })
+    })));
+};
+
+// Replaces the analysis of a saved page, optionally together with a new photo. Reading progress and
+// vocab found on the page move to the matching sentences of the new analysis.
+export const replacePageAnalysis = async (bookId: string, pageId: string, analysis: PageAnalysisResult, image?: string) => {
+    const scope = await ready();
+    const page = await getRecord<BookPage>(scope, 'pages', pageId);
+    if (!page) return;
+
+    const matches = matchSentences(page.analysis.sentences, analysis.sentences);
+    const lastIndex = page.lastSentenceIndex || 0;
+    const lastSentenceIndex = matches.get(lastIndex) ?? Math.min(lastIndex, Math.max(0, analysis.sentences.length - 1));
+
+    let updated: BookPage = { ...page, analysis, lastSentenceIndex, progressUpdatedAt: Date.now() };
+    const oldImageRef = image ? page.imageRef : undefined;
+    if (image) {
+        updated = await externalizePageImage(scope, { ...updated, image }, pageImageRef(`${pageId}_${Date.now()}`));
+        if (oldImageRef) await removeImages(scope, [oldImageRef]);
+    }
+    await putRecords(scope, 'pages', [updated]);
+
+    const { id, ...pageData } = updated;
+    await queueRemote(scope, [
+        ...(image && updated.imageRef ? [{ op: 'upload' as const, path: updated.imageRef.split('/') }] : []),
+        { op: 'set', path: ['books', bookId, 'pages', id], data: sanitizeData(pageData) },
+        ...(oldImageRef ? [{ op: 'deleteFile' as const, path: oldImageRef.split('/') }] : [])
+    ]);
+
+    await relinkVocab(scope, pageId, matches, page.analysis.sentences, analysis.sentences);
+};
+
+// Saves a manually corrected analysis. Sentences keep their positions; corrected words are
+// applied to the vocab read in them, words that no longer exist lose their form there.
+export const updatePageAnalysis = async (bookId: string, pageId: string, analysis: PageAnalysisResult) => {
+    const scope = await ready();
+    const page = await getRecord<BookPage>(scope, 'pages', pageId);
+    if (!page) return;
+    await putRecords(scope, 'pages', [{ ...page, analysis }]);
+    await queueRemote(scope, [{ op: 'update', path: ['books', bookId, 'pages', pageId], data: sanitizeData({ analysis }) }]);
+
+    const before = page.analysis.sentences;
+    const after = analysis.sentences;
+    const unchangedPositions = new Map(after.flatMap((_, idx): [number, number][] => idx < before.length ? [[idx, idx]] : []));
+    await relinkVocab(scope, pageId, unchangedPositions, before, after);
+
+    const vocab = await getAllRecords<VocabItem>(scope, 'vocab');
+    const byLemma = new Map(vocab.map(v => [lemmaKey(v), v]));
+    const changedIds = new Set<string>();
+    const removedIds = new Set<string>();
+    const added: NewVocabItem[] = [];
+
+    after.forEach((sentence, sentenceIndex) => {
+        const previous = before[sentenceIndex];
+        if (!previous) return;
+        const source: VocabSource = { bookId, pageId, sentenceIndex };
+        const changes = diffSentenceVocab(previous, sentence, source);
+        added.push(...changes.added);
+        changes.changed.forEach(entry => {
+            const item = byLemma.get(lemmaKey(entry));
+            if (!item || !hasForm(item, entry.word)) return;
+            byLemma.set(lemmaKey(entry), updateFormInLemma(item, entry));
+            changedIds.add(item.id);
+        });
+        changes.removed.forEach(entry => {
+            const item = byLemma.get(lemmaKey(entry));
+            if (!item) return;
+            const updated = removeFormFromLemma(item, entry.word, source, sentence.original);
+            if (updated === item) return;
+            // Words already practised keep their learning state even without a form
+            if (!updated && (item.reviewHistory?.length || 0) === 0) {
+                byLemma.delete(lemmaKey(entry));
+                removedIds.add(item.id);
+                return;
+            }
+            if (updated) {
+                byLemma.set(lemmaKey(entry), updated);
+                changedIds.add(item.id);
+            }
+        });
+    });
+
+    const changed = Array.from(byLemma.values()).filter(v => changedIds.has(v.id) && !removedIds.has(v.id));
+    await putRecords(scope, 'vocab', changed);
+    await deleteRecords(scope, 'vocab', Array.from(removedIds));
+    await queueRemote(scope, [
+        ...changed.map(item => ({
+            op: 'update' as const,
+            path: ['vocabulary', item.id],
+            data: sanitizeData({
+                forms: item.forms,
+                translation: item.translation,
+                explanation: item.explanation,
+                category: item.category,
+                tense: item.tense,
+                person: item.person,
+                source: item.source,
+                occurrences: item.occurrences
+            })
+        })),
+        ...Array.from(removedIds).map(id => ({ op: 'delete' as const, path: ['vocabulary', id] }))
+    ]);
+    const toSave = selectVocabToSave(added, getVocabSavePolicy(), byLemma);
+    if (toSave.length > 0) await addVocabBatch(toSave);
+};
+
+// Original sentence -> German translation over all saved pages, for vocab saved without contextTranslation
+export const getSentenceTranslations = async (): Promise<Map<string, string>> => {
+    const scope = await ready();
+    const pages = await getAllRecords<BookPage>(scope, 'pages');
+    const translations = new Map<string, string>();
+    pages.forEach(page => page.analysis.sentences.forEach(s => translations.set(s.original.trim(), s.translation)));
+    return translations;
+};
+
+export const getPage = async (pageId: string): Promise<BookPage | null> => {
+    const scope = await ready();
+    const page = await getRecord<BookPage>(scope, 'pages', pageId);
+    if (!page || !await getRecord<Book>(scope, 'books', page.bookId)) return null;
+    return page.image ? moveInlineImage(scope, page) : page;
+};
+
+// Full-size page image, loaded on demand (null for text pages)
+export const getPageImage = async (page: BookPage): Promise<string | null> => {
+    if (page.image) return page.image;
+    if (!page.imageRef) return null;
+    return loadImage(await ready(), page.imageRef);
 };
 
 export const updatePageProgress = async (bookId: string, pageId: string, sentenceIndex: number) => {
-    const user = currentUser;
-    if (user) {
-         try {
-            const pageRef = doc(db, 'users', user.uid, 'books', bookId, 'pages', pageId);
-            await updateDoc(pageRef, { lastSentenceIndex: sentenceIndex });
-        } catch (e) { console.error("Failed to save progress", e); }
-    } else {
-        const stored = localStorage.getItem(`${BOOKS_KEY}_pages_${bookId}`);
-        if(stored) {
-             const pages = JSON.parse(stored) as BookPage[];
-             const idx = pages.findIndex(p => p.id === pageId);
-             if(idx !== -1) {
-                 pages[idx].lastSentenceIndex = sentenceIndex;
-                 localStorage.setItem(`${BOOKS_KEY}_pages_${bookId}`, JSON.stringify(pages));
-             }
-        }
+    try {
+        const scope = await ready();
+        const page = await getRecord<BookPage>(scope, 'pages', pageId);
+        if (!page) return;
+        const changes = { lastSentenceIndex: sentenceIndex, progressUpdatedAt: Date.now() };
+        await putRecords(scope, 'pages', [{ ...page, ...changes }]);
+        await queueRemote(scope, [{ op: 'update', path: ['books', bookId, 'pages', pageId], data: changes, guard: 'progressUpdatedAt' }]);
+    } catch (e) { console.error("Failed to save progress", e); }
+}
+
+// Sentences from all saved pages plus the sentences vocab was found in
+export const getDictationSentences = async (): Promise<DictationSentence[]> => {
+    const scope = await ready();
+    const [pages, vocab] = await Promise.all([
+        getAllRecords<BookPage>(scope, 'pages'),
+        getAllRecords<VocabItem>(scope, 'vocab')
+    ]);
+    const sentences = new Map<string, DictationSentence>();
+    pages.forEach(page => page.analysis.sentences.forEach(s => {
+        sentences.set(s.original.trim(), { sentence: s.original.trim(), translation: s.translation });
+    }));
+    vocab.forEach(item => getForms(item).forEach(form => {
+        const sentence = form.contextSentence?.trim();
+        if (sentence && !sentences.has(sentence)) sentences.set(sentence, { sentence, translation: form.contextTranslation });
+    }));
+    // Very short fragments and whole paragraphs make poor dictations
+    return Array.from(sentences.values()).filter(s => {
+        const words = s.sentence.split(/\s+/).length;
+        return words >= 3 && words <= 30;
+    });
+};
+
+export const getDictationRecords = async (): Promise<DictationRecord[]> => {
+    try {
+        const scope = await ready();
+        return await getAllRecords<DictationRecord>(scope, 'dictation');
+    } catch (e) {
+        console.error("Failed to load dictation records", e);
+        return [];
     }
-}
\ No newline at end of file
+};
+
+export const saveDictationResult = async (sentence: string, accuracy: number) => {
+    const scope = await ready();
+    const id = sentenceId(sentence);
+    const existing = await getRecord<DictationRecord>(scope, 'dictation', id);
+    const recordData: Omit<DictationRecord, 'id'> = {
+        sentence: sentence.trim(),
+        attempts: (existing?.attempts || 0) + 1,
+        lastAccuracy: accuracy,
+        bestAccuracy: Math.max(existing?.bestAccuracy || 0, accuracy),
+        lastPracticedAt: Date.now()
+    };
+    await putRecords(scope, 'dictation', [{ id, ...recordData }]);
+    await queueRemote(scope, [{ op: 'set', path: ['dictation', id], data: recordData }]);
+};
@@ -0,0 +1,329 @@
+import { collection, doc, getDocs, setDoc, updateDoc, deleteDoc, increment, runTransaction, writeBatch, FirestoreError } from 'firebase/firestore';
+import { ref as storageRef, uploadBytes, deleteObject, StorageError } from 'firebase/storage';
+import { db, storage } from './firebase';
+import { Book, BookPage, VocabItem, DictationRecord } from '../types';
+import { StoreName, getAllRecords, getRecord, putRecords, deleteRecords, countRecords } from './localDb';
+
+// Background sync between the local IndexedDB store of a signed-in user and Firestore.
+// Every local write appends an entry to the outbox; the outbox is replayed in order whenever
+// the user is online. Pulls merge the server state back into the local store.
+
+export interface OutboxEntry {
+  seq?: number;
+  // 'upload' and 'deleteFile' address Firebase Storage, 'deleteCollection' a whole Firestore
+  // collection, the other ops Firestore documents
+  op: 'set' | 'update' | 'delete' | 'upload' | 'deleteFile' | 'deleteCollection';
+  // Path below users/{uid}, e.g. ['books', bookId, 'pages', pageId], ['books', bookId, 'pages'] or ['pages', 'abc.jpg']
+  path: string[];
+  data?: Record<string, any>;
+  increments?: Record<string, number>;
+  // Timestamp field deciding conflicts: the update is dropped if the server copy is newer
+  guard?: string;
+  createdAt: number;
+  // Set when the server rejected the entry. It stays in the outbox so the local record is kept,
+  // and is tried again on the next full sync.
+  failedAt?: number;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  lastSyncedAt: number | null;
+  error?: string;
+}
+
+const MASTERY_FIELDS: (keyof VocabItem)[] = [
+  'masteryLevel', 'mastered', 'ease', 'interval', 'repetitions', 'lapses', 'dueAt', 'lastReviewedAt', 'reviewHistory', 'masteryUpdatedAt'
+];
+const PROGRESS_FIELDS: (keyof BookPage)[] = ['lastSentenceIndex', 'progressUpdatedAt'];
+
+const SYNC_DEBOUNCE_MS = 500;
+// Firestore allows at most 500 writes per batch
+const DELETE_BATCH_SIZE = 400;
+const INITIAL_SYNC_TIMEOUT_MS = 8000;
+const TRANSIENT_ERROR_CODES = ['unavailable', 'deadline-exceeded', 'resource-exhausted', 'cancelled', 'internal', 'aborted'];
+const TRANSIENT_STORAGE_ERROR_CODES = ['storage/retry-limit-exceeded', 'storage/canceled', 'storage/unknown'];
+// Rejections of the data itself, as opposed to the document being gone on the server
+const REJECTED_ERROR_CODES = ['invalid-argument', 'permission-denied', 'failed-precondition', 'out-of-range'];
+
+let status: SyncStatus = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  syncing: false,
+  pending: 0,
+  lastSyncedAt: null
+};
+const listeners = new Set<(status: SyncStatus) => void>();
+
+let activeUid: string | null = null;
+let syncTimer: ReturnType<typeof setTimeout> | undefined;
+let pendingPull = false; // a pull asked for by any call folded into the debounce
+let syncChain: Promise<void> = Promise.resolve();
+const initialSyncs = new Map<string, Promise<void>>();
+
+const setStatus = (patch: Partial<SyncStatus>) => {
+  status = { ...status, ...patch };
+  listeners.forEach(listener => listener(status));
+};
+
+export const subscribeSyncStatus = (listener: (status: SyncStatus) => void) => {
+  listeners.add(listener);
+  listener(status);
+  return () => { listeners.delete(listener); };
+};
+
+const refreshPendingCount = async (uid: string) => {
+  if (uid === activeUid) setStatus({ pending: await countRecords(uid, 'outbox') });
+};
+
+// Firestore rejects undefined anywhere in a document, so it is stripped from nested objects and arrays too.
+export const sanitizeData = <T>(data: T): T => {
+  if (Array.isArray(data)) {
+    return data.filter(value => value !== undefined).map(value => sanitizeData(value)) as T;
+  }
+  if (data === null || typeof data !== 'object' || Object.getPrototypeOf(data) !== Object.prototype) return data;
+  const sanitized: any = {};
+  Object.entries(data).forEach(([key, value]) => {
+    if (value !== undefined) sanitized[key] = sanitizeData(value);
+  });
+  return sanitized;
+};
+
+// The SDK's error classes are not always the ones imported here (e.g. a second copy of the SDK),
+// so errors are recognised by their code.
+const errorCode = (error: unknown): string | undefined => {
+  if (error instanceof FirestoreError || error instanceof StorageError) return error.code;
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' ? code : undefined;
+};
+
+// Network problems keep the entry for the next attempt
+const isTransientError = (error: unknown) => {
+  const code = errorCode(error);
+  if (!code) return true;
+  return TRANSIENT_ERROR_CODES.includes(code) || TRANSIENT_STORAGE_ERROR_CODES.includes(code);
+};
+
+// A rejected entry is kept so its record survives the next pull; anything else that can never
+// succeed (e.g. a document deleted on another device) is dropped.
+const isRejectedError = (error: unknown) => REJECTED_ERROR_CODES.includes(errorCode(error) || '');
+
+const applyFileEntry = async (uid: string, entry: OutboxEntry) => {
+  const fileRef = storageRef(storage, ['users', uid, ...entry.path].join('/'));
+  if (entry.op === 'deleteFile') {
+    await deleteObject(fileRef);
+    return;
+  }
+  // The blob itself stays in the local image store until the upload happens
+  const blob = await getRecord<Blob>(uid, 'images', entry.path.join('/'));
+  if (blob) await uploadBytes(fileRef, blob, { contentType: blob.type || 'image/jpeg' });
+};
+
+// Deletes every document of a collection, including ones this device never saw
+const deleteCollection = async (uid: string, path: string[]) => {
+  const snapshot = await getDocs(collection(db, 'users', uid, ...path));
+  for (let i = 0; i < snapshot.docs.length; i += DELETE_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    snapshot.docs.slice(i, i + DELETE_BATCH_SIZE).forEach(d => batch.delete(d.ref));
+    await batch.commit();
+  }
+};
+
+const applyEntry = async (uid: string, entry: OutboxEntry) => {
+  if (entry.op === 'upload' || entry.op === 'deleteFile') {
+    await applyFileEntry(uid, entry);
+    return;
+  }
+  if (entry.op === 'deleteCollection') {
+    await deleteCollection(uid, entry.path);
+    return;
+  }
+  const ref = doc(db, 'users', uid, ...entry.path);
+  // Entries queued by earlier versions may still contain undefined values
+  const data = sanitizeData(entry.data || {});
+  if (entry.op === 'set') {
+    await setDoc(ref, data);
+    return;
+  }
+  if (entry.op === 'delete') {
+    await deleteDoc(ref);
+    return;
+  }
+
+  const changes: Record<string, any> = { ...data };
+  Object.entries(entry.increments || {}).forEach(([field, by]) => {
+    changes[field] = increment(by);
+  });
+
+  const guard = entry.guard;
+  if (!guard) {
+    await updateDoc(ref, changes);
+    return;
+  }
+  await runTransaction(db, async tx => {
+    const snap = await tx.get(ref);
+    if (!snap.exists()) return;
+    const remoteTimestamp = snap.data()[guard] || 0;
+    if (remoteTimestamp > (entry.data?.[guard] || 0)) return;
+    tx.update(ref, changes);
+  });
+};
+
+const flushOutbox = async (uid: string, retryFailed: boolean) => {
+  const entries = (await getAllRecords<OutboxEntry>(uid, 'outbox'))
+    .filter(e => retryFailed || !e.failedAt)
+    .sort((a, b) => (a.seq || 0) - (b.seq || 0));
+  // Later changes of a rejected document wait with it, so they are replayed in order
+  const heldPaths = new Set<string>();
+  for (const entry of entries) {
+    const path = entry.path.join('/');
+    try {
+      if (heldPaths.has(path)) {
+        await putRecords(uid, 'outbox', [{ ...entry, failedAt: Date.now() }]);
+        continue;
+      }
+      await applyEntry(uid, entry);
+    } catch (e) {
+      if (isTransientError(e)) throw e;
+      if (isRejectedError(e)) {
+        console.error("Server rejected outbox entry, keeping it", entry, e);
+        heldPaths.add(path);
+        await putRecords(uid, 'outbox', [{ ...entry, failedAt: Date.now() }]);
+        continue;
+      }
+      console.error("Dropping outbox entry that cannot be synced", entry, e);
+    }
+    await deleteRecords(uid, 'outbox', [entry.seq!]);
+    await refreshPendingCount(uid);
+  }
+};
+
+const fetchCollection = async <T>(uid: string, path: string[]): Promise<T[]> => {
+  const snapshot = await getDocs(collection(db, 'users', uid, ...path));
+  return snapshot.docs.map(d => ({ ...d.data(), id: d.id } as T));
+};
+
+// Fields of a group are taken from whichever side changed them last.
+const resolveByTimestamp = <T>(fields: (keyof T)[], timestampField: keyof T) => (local: T, merged: T): T => {
+  const localTs = (local[timestampField] as unknown as number) || 0;
+  const remoteTs = (merged[timestampField] as unknown as number) || 0;
+  if (localTs <= remoteTs) return merged;
+  const result = { ...merged };
+  fields.forEach(field => { result[field] = local[field]; });
+  return result;
+};
+
+const mergeStore = async <T extends { id: string }>(
+  uid: string,
+  storeName: StoreName,
+  remote: T[],
+  pendingIds: Set<string>,
+  resolve?: (local: T, merged: T) => T
+) => {
+  const local = await getAllRecords<T>(uid, storeName);
+  const localById = new Map(local.map(r => [r.id, r]));
+  const remoteIds = new Set(remote.map(r => r.id));
+
+  // Records deleted locally but not yet on the server stay deleted
+  const merged = remote.filter(r => localById.has(r.id) || !pendingIds.has(r.id)).map(r => {
+    const l = localById.get(r.id);
+    if (!l) return r;
+    // Records with unsynced local changes keep their local values
+    const base = pendingIds.has(r.id) ? { ...r, ...l } : r;
+    return resolve ? resolve(l, base) : base;
+  });
+  // Local records unknown to the server were either deleted elsewhere or are still waiting in the outbox
+  const removed = local.filter(l => !remoteIds.has(l.id) && !pendingIds.has(l.id)).map(l => l.id);
+
+  await putRecords(uid, storeName, merged);
+  if (removed.length > 0) await deleteRecords(uid, storeName, removed);
+};
+
+const pullRemote = async (uid: string) => {
+  const [remoteVocab, remoteBooks, remoteDictation] = await Promise.all([
+    fetchCollection<VocabItem>(uid, ['vocabulary']),
+    fetchCollection<Book>(uid, ['books']),
+    fetchCollection<DictationRecord>(uid, ['dictation'])
+  ]);
+  const remotePages = (await Promise.all(
+    remoteBooks.map(book => fetchCollection<BookPage>(uid, ['books', book.id, 'pages']))
+  )).flat();
+
+  const outbox = await getAllRecords<OutboxEntry>(uid, 'outbox');
+  const pendingIds = new Set(outbox.map(e => e.path[e.path.length - 1]));
+
+  await mergeStore(uid, 'vocab', remoteVocab, pendingIds, resolveByTimestamp<VocabItem>(MASTERY_FIELDS, 'masteryUpdatedAt'));
+  await mergeStore(uid, 'books', remoteBooks, pendingIds);
+  await mergeStore(uid, 'pages', remotePages, pendingIds, resolveByTimestamp<BookPage>(PROGRESS_FIELDS, 'progressUpdatedAt'));
+  await mergeStore(uid, 'dictation', remoteDictation, pendingIds);
+};
+
+const runSync = async (uid: string, pull: boolean) => {
+  if (!navigator.onLine) {
+    setStatus({ online: false });
+    return;
+  }
+  setStatus({ online: true, syncing: true, error: undefined });
+  try {
+    await flushOutbox(uid, pull);
+    if (pull) await pullRemote(uid);
+    setStatus({ lastSyncedAt: Date.now() });
+  } catch (e: any) {
+    console.error("Sync failed", e);
+    setStatus({ error: e?.message || 'Synchronisierung fehlgeschlagen' });
+  } finally {
+    setStatus({ syncing: false });
+    await refreshPendingCount(uid);
+  }
+};
+
+const queueSync = (uid: string, pull: boolean): Promise<void> => {
+  syncChain = syncChain.then(() => runSync(uid, pull));
+  return syncChain;
+};
+
+export const requestSync = (pull: boolean = false) => {
+  clearTimeout(syncTimer);
+  pendingPull = pendingPull || pull;
+  syncTimer = setTimeout(() => {
+    const pullNow = pendingPull;
+    pendingPull = false;
+    if (activeUid) queueSync(activeUid, pullNow);
+  }, SYNC_DEBOUNCE_MS);
+};
+
+export const enqueue = async (uid: string, entries: Array<Omit<OutboxEntry, 'seq' | 'createdAt'>>) => {
+  const createdAt = Date.now();
+  await putRecords(uid, 'outbox', entries.map(e => ({ ...e, createdAt })));
+  await refreshPendingCount(uid);
+  requestSync();
+};
+
+// Called on every auth change. The first sync of a session also pulls the server state.
+export const startSync = (uid: string | null) => {
+  activeUid = uid;
+  if (!uid) {
+    setStatus({ pending: 0, syncing: false, error: undefined });
+    return;
+  }
+  refreshPendingCount(uid);
+  if (!initialSyncs.has(uid)) {
+    initialSyncs.set(uid, queueSync(uid, true));
+  }
+};
+
+// Reads wait for the first pull so a fresh device does not show an empty library,
+// but never longer than a few seconds when the network is slow.
+export const waitForInitialSync = (uid: string): Promise<void> => {
+  const initial = initialSyncs.get(uid);
+  if (!initial) return Promise.resolve();
+  return Promise.race([initial, new Promise<void>(resolve => setTimeout(resolve, INITIAL_SYNC_TIMEOUT_MS))]);
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    setStatus({ online: true });
+    requestSync(true);
+  });
+  window.addEventListener('offline', () => setStatus({ online: false }));
+}
@@ -0,0 +1,53 @@
+import { NewVocabItem, PageAnalysisResult, SentenceAnalysis, VocabItem, VocabSavePolicy, VocabSource, WordAnalysis } from "../types";
+import { lemmaKey } from "./vocabLemmas";
+import { isFrequentWord } from "./frequencyList";
+
+// A single word as vocab item, with its sentence as context
+export const vocabEntryFromWord = (w: WordAnalysis, sentence: SentenceAnalysis, source?: VocabSource): NewVocabItem => ({
+    word: w.word,
+    translation: w.translation || '',
+    explanation: w.explanation || '',
+    literalTranslation: w.literalTranslation,
+    category: w.category,
+    baseForm: w.baseForm,
+    tense: w.tense,
+    person: w.person,
+    contextSentence: sentence.original,
+    contextTranslation: sentence.translation,
+    source
+});
+
+// Flattens every word and subword of a page into vocab items, keeping the sentence as context.
+const flattenWords = (words: WordAnalysis[], sentence: SentenceAnalysis, source?: VocabSource): NewVocabItem[] => {
+    return words.flatMap(w => {
+        if (w.type !== 'word') return [];
+
+        const mainWord = vocabEntryFromWord(w, sentence, source);
+        const subList = w.subWords && w.subWords.length > 0 ? flattenWords(w.subWords, sentence, source) : [];
+        return [mainWord, ...subList];
+    });
+};
+
+export const collectVocabFromSentence = (sentence: SentenceAnalysis, source?: VocabSource): NewVocabItem[] => {
+    return flattenWords(sentence.words, sentence, source);
+};
+
+// With a page the items also remember where they were read
+export const collectVocabFromAnalysis = (analysis: PageAnalysisResult, page?: { bookId: string; pageId: string }): NewVocabItem[] => {
+    return analysis.sentences.flatMap((s, sentenceIndex) =>
+        collectVocabFromSentence(s, page ? { ...page, sentenceIndex } : undefined)
+    );
+};
+
+// Applies the saving policy. Its exclusions only keep new lemmas out; lemmas already in the
+// collection still learn new forms and places, unless they are mastered and known words are skipped.
+export const selectVocabToSave = (items: NewVocabItem[], policy: VocabSavePolicy, saved: Map<string, VocabItem>): NewVocabItem[] => {
+    if (!policy.autoSave) return [];
+    return items.filter(item => {
+        const existing = saved.get(lemmaKey(item));
+        if (existing) return !(policy.skipKnown && existing.masteryLevel === 'mastered');
+        if (policy.skipFunctionWords && item.category === 'function') return false;
+        if (policy.skipFrequent && isFrequentWord(item, policy.frequentTopN)) return false;
+        return true;
+    });
+};
@@ -0,0 +1,166 @@
+import { NewVocabItem, VocabForm, VocabItem, VocabSource } from '../types';
+
+// Vocabulary is grouped by lemma: one VocabItem per baseForm, with every inflected form
+// that was encountered kept in `forms`. Learning state belongs to the lemma.
+
+const normalize = (word: string) => word.trim().toLowerCase();
+
+export const lemmaKey = (item: { word: string; baseForm?: string }) => normalize(item.baseForm || item.word);
+
+// Firestore rejects undefined values, so optional fields are only set when present
+const definedOnly = <T extends object>(value: T): T => {
+  const result = { ...value };
+  (Object.keys(result) as (keyof T)[]).forEach(key => {
+    if (result[key] === undefined) delete result[key];
+  });
+  return result;
+};
+
+const toForm = (item: NewVocabItem | VocabItem, addedAt: number): VocabForm => definedOnly({
+  word: item.word.trim(),
+  translation: item.translation,
+  tense: item.tense,
+  person: item.person,
+  contextSentence: item.contextSentence,
+  contextTranslation: item.contextTranslation,
+  source: item.source,
+  addedAt
+});
+
+// Items saved before grouping carry their single form in the top-level fields
+export const getForms = (item: VocabItem): VocabForm[] => item.forms || [toForm(item, item.addedAt)];
+
+export const hasForm = (item: VocabItem, word: string) => {
+  const target = normalize(word);
+  return normalize(item.word) === target || getForms(item).some(f => normalize(f.word) === target);
+};
+
+export const createLemmaItem = (entry: NewVocabItem, id: string, addedAt: number): VocabItem => {
+  const { tense, person, ...rest } = entry;
+  const isLemma = !entry.baseForm || lemmaKey(entry) === normalize(entry.word);
+  return definedOnly({
+    ...rest,
+    // Tense and person describe the form, so they only stay on the item if it is the lemma itself
+    ...(isLemma ? { tense, person } : {}),
+    word: (entry.baseForm || entry.word).trim(),
+    forms: [toForm(entry, addedAt)],
+    id,
+    addedAt,
+    mastered: false,
+    masteryLevel: 'new'
+  });
+};
+
+// All places the lemma was read, the first one first
+export const getSources = (item: VocabItem): VocabSource[] => [
+  ...(item.source ? [item.source] : []),
+  ...(item.occurrences || [])
+];
+
+const sameSource = (a: VocabSource, b: VocabSource) => a.pageId === b.pageId && a.sentenceIndex === b.sentenceIndex;
+
+const recordOccurrence = (item: VocabItem, source?: VocabSource): VocabItem => {
+  if (!source || getSources(item).some(s => sameSource(s, source))) return item;
+  if (!item.source) return { ...item, source };
+  return { ...item, occurrences: [...(item.occurrences || []), source] };
+};
+
+// Returns the updated item, or null if neither the form nor the place it was read are new.
+export const addFormToLemma = (item: VocabItem, entry: NewVocabItem, addedAt: number): VocabItem | null => {
+  const withSource = recordOccurrence(item, entry.source);
+  if (getForms(item).some(f => normalize(f.word) === normalize(entry.word))) {
+    return withSource === item ? null : withSource;
+  }
+  const updated: VocabItem = { ...withSource, forms: [...getForms(item), toForm(entry, addedAt)] };
+  // Prefer the translation of the lemma itself once it shows up in a text
+  if (normalize(entry.word) === normalize(item.word)) {
+    updated.translation = entry.translation;
+    updated.explanation = entry.explanation;
+  }
+  return updated;
+};
+
+// Applies a corrected analysis of a form that is already saved (translation, grammar, category).
+export const updateFormInLemma = (item: VocabItem, entry: NewVocabItem): VocabItem => {
+  const target = normalize(entry.word);
+  const updated: VocabItem = {
+    ...item,
+    category: entry.category || item.category,
+    forms: getForms(item).map(f => normalize(f.word) === target
+      ? definedOnly({ ...f, translation: entry.translation, tense: entry.tense, person: entry.person })
+      : f)
+  };
+  if (normalize(item.word) === target) {
+    updated.translation = entry.translation;
+    updated.explanation = entry.explanation;
+    updated.tense = entry.tense;
+    updated.person = entry.person;
+  }
+  return definedOnly(updated);
+};
+
+// Removes a form read at the given place (forms saved before provenance are matched by their sentence).
+// Returns null once no form is left.
+export const removeFormFromLemma = (item: VocabItem, word: string, source: VocabSource, contextSentence: string): VocabItem | null => {
+  const target = normalize(word);
+  const readHere = (f: VocabForm) => f.source ? sameSource(f.source, source) : f.contextSentence?.trim() === contextSentence.trim();
+  const forms = getForms(item).filter(f => !(normalize(f.word) === target && readHere(f)));
+  if (forms.length === getForms(item).length) return item;
+  if (forms.length === 0) return null;
+
+  // The place stays recorded as long as another form was read there
+  const sources = forms.some(f => f.source && sameSource(f.source, source))
+    ? getSources(item)
+    : getSources(item).filter(s => !sameSource(s, source));
+  const [first, ...rest] = sources;
+  return { ...item, forms, source: first, occurrences: rest.length > 0 ? rest : undefined };
+};
+
+// Removes a form wherever it was read. Places stay recorded only where another form was read.
+export const dropFormFromLemma = (item: VocabItem, word: string): VocabItem | null => {
+  const target = normalize(word);
+  const forms = getForms(item).filter(f => normalize(f.word) !== target);
+  if (forms.length === getForms(item).length) return item;
+  if (forms.length === 0) return null;
+
+  const [first, ...rest] = getSources(item).filter(s => forms.some(f => f.source && sameSource(f.source, s)));
+  return { ...item, forms, source: first, occurrences: rest.length > 0 ? rest : undefined };
+};
+
+// Merges items of the same lemma into the oldest one. Deterministic, so several devices
+// grouping the same synced data end up with the same result.
+export const groupVocabByLemma = (items: VocabItem[]): { changed: VocabItem[]; removedIds: string[] } => {
+  const groups = new Map<string, VocabItem[]>();
+  [...items]
+    .sort((a, b) => a.addedAt - b.addedAt || a.id.localeCompare(b.id))
+    .forEach(item => {
+      const key = lemmaKey(item);
+      groups.set(key, [...(groups.get(key) || []), item]);
+    });
+
+  const changed: VocabItem[] = [];
+  const removedIds: string[] = [];
+  groups.forEach(([first, ...others]) => {
+    const headword = (first.baseForm || first.word).trim();
+    if (others.length === 0 && first.word === headword) return;
+
+    const forms: VocabForm[] = [];
+    [first, ...others].forEach(item => {
+      getForms(item).forEach(form => {
+        if (!forms.some(f => normalize(f.word) === normalize(form.word))) forms.push(form);
+      });
+    });
+    const lemmaEntry = [first, ...others].find(item => normalize(item.word) === normalize(headword));
+    changed.push(definedOnly({
+      ...first,
+      word: headword,
+      translation: lemmaEntry?.translation || first.translation,
+      explanation: lemmaEntry?.explanation || first.explanation,
+      tense: lemmaEntry?.tense,
+      person: lemmaEntry?.person,
+      forms
+    }));
+    removedIds.push(...others.map(item => item.id));
+  });
+  return { changed, removedIds };
+};
@@ -2,6 +2,17 @@ export type WordCategory = 'noun' | 'verb' | 'adjective' | 'function';
 
 export type MasteryLevel = 'new' | 'again' | 'medium' | 'good' | 'mastered';
 
+// Region on the page image as [ymin, xmin, ymax, xmax], each 0-1000 (Gemini's box_2d convention)
+export type BoundingBox = [number, number, number, number];
+
+// The same region as an object, for lists of boxes: Firestore does not store arrays inside arrays
+export interface LineBox {
+  ymin: number;
+  xmin: number;
+  ymax: number;
+  xmax: number;
+}
+
 export interface WordAnalysis {
   word: string;
   translation?: string;
@@ -13,34 +24,78 @@ export interface WordAnalysis {
   tense?: string;
   person?: string;
   subWords?: WordAnalysis[];
+  box?: BoundingBox;
 }
 
 export interface SentenceAnalysis {
   original: string;
   translation: string;
   words: WordAnalysis[];
+  // One box per printed line the sentence covers; only for analyses of images
+  boxes?: LineBox[];
 }
 
 export interface PageAnalysisResult {
   sentences: SentenceAnalysis[];
 }
 
+export interface ReviewLogEntry {
+  reviewedAt: number;
+  rating: MasteryLevel;
+  interval: number; // days until the next review, 0 = same day
+}
+
+// Where a word was read: a saved page and the index of the sentence in its analysis
+export interface VocabSource {
+  bookId: string;
+  pageId: string;
+  sentenceIndex: number;
+}
+
+// An inflected form of a lemma as it was encountered while reading
+export interface VocabForm {
+  word: string;
+  translation: string;
+  tense?: string;
+  person?: string;
+  contextSentence?: string;
+  contextTranslation?: string;
+  source?: VocabSource;
+  addedAt: number;
+}
+
 export interface VocabItem {
   id: string;
-  word: string;
+  word: string; // the lemma (baseForm) when known, otherwise the surface form
   translation: string;
   explanation: string;
   literalTranslation?: string;
   category?: WordCategory;
   baseForm?: string;
   contextSentence?: string;
+  contextTranslation?: string; // German translation of contextSentence
+  source?: VocabSource; // first occurrence, absent for words saved outside a book
+  occurrences?: VocabSource[]; // every further occurrence, see services/vocabLemmas.ts
   tense?: string;
   person?: string;
   addedAt: number;
   mastered: boolean; // Deprecated but kept for compatibility
   masteryLevel?: MasteryLevel;
+  // Spaced repetition state (SM-2), see services/srsScheduler.ts
+  ease?: number;
+  interval?: number;
+  repetitions?: number;
+  lapses?: number;
+  dueAt?: number;
+  lastReviewedAt?: number;
+  reviewHistory?: ReviewLogEntry[];
+  forms?: VocabForm[]; // encountered forms, see services/vocabLemmas.ts
+  masteryUpdatedAt?: number; // decides sync conflicts for the learning state
 }
 
+// Shape accepted by addVocabBatch before ids and learning state are assigned
+export type NewVocabItem = Omit<VocabItem, 'id' | 'addedAt' | 'mastered' | 'masteryLevel' | 'forms' | 'occurrences'>;
+
 export interface Book {
   id: string;
   title: string;
@@ -54,10 +109,23 @@ export interface BookPage {
   id: string;
   bookId: string;
   pageNumber: number;
-  image: string; // base64
+  image?: string; // legacy inline base64, moved to the image store when the page is first loaded
+  imageRef?: string; // key in the image store (and path below users/{uid} in Firebase Storage), absent for text pages
+  thumbnail?: string; // small base64 JPEG for the library grid
   analysis: PageAnalysisResult;
   createdAt: number;
   lastSentenceIndex?: number;
+  progressUpdatedAt?: number; // decides sync conflicts for the reading progress
+}
+
+// Dictation accuracy per sentence, keyed by a hash of the sentence text
+export interface DictationRecord {
+  id: string;
+  sentence: string;
+  attempts: number;
+  lastAccuracy: number; // 0..1, share of words typed correctly
+  bestAccuracy: number;
+  lastPracticedAt: number;
 }
 
 export enum AppView {
@@ -69,8 +137,38 @@ export enum AppView {
   SETTINGS = 'SETTINGS',
 }
 
+export type AnalysisProviderId = 'gemini' | 'openai-compatible' | 'fixture';
+
+export interface AnalysisProviderSettings {
+  provider: AnalysisProviderId;
+  geminiModel: string;
+  // Only used by the OpenAI-compatible provider (e.g. a local Ollama or LM Studio server)
+  endpointUrl?: string;
+  endpointModel?: string;
+  endpointApiKey?: string;
+}
+
+export interface SpeechSettings {
+  voice: string;
+  // Playback speed, 0.5 to 1.5
+  rate: number;
+  // Use the browser's own voices instead of Gemini (offline, no quota)
+  preferLocal: boolean;
+}
+
+// Which words of an analysed page go into the vocabulary automatically
+export interface VocabSavePolicy {
+  autoSave: boolean;
+  skipFunctionWords: boolean;
+  // Leave out lemmas already marked as mastered
+  skipKnown: boolean;
+  // Leave out the most frequent words of the bundled frequency list
+  skipFrequent: boolean;
+  frequentTopN: number;
+}
+
 export interface PersistedAnalysis {
   data: PageAnalysisResult;
-  image: string; // base64
+  image?: string; // base64, absent for pasted text
   timestamp: number;
 }
\ No newline at end of file